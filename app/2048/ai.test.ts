@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { bestMove, evaluate } from "./ai";
+import { type Board, move } from "./game";
+
+describe("evaluate", () => {
+  it("prefiere tableros con más casillas libres", () => {
+    const spread: Board = [
+      [2, 4, 2, 4],
+      [4, 2, 4, 2],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ];
+    const merged: Board = [
+      [2, 4, 2, 4],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ];
+    expect(evaluate(merged)).toBeGreaterThan(evaluate(spread));
+  });
+
+  it("prefiere las filas ordenadas a las alternas", () => {
+    const ordered: Board = [
+      [64, 32, 16, 8],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ];
+    const alternate: Board = [
+      [64, 8, 32, 16],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ];
+    expect(evaluate(ordered)).toBeGreaterThan(evaluate(alternate));
+  });
+});
+
+describe("bestMove", () => {
+  it("null si no queda ningún movimiento", () => {
+    expect(
+      bestMove([
+        [2, 4],
+        [4, 2],
+      ])
+    ).toBeNull();
+  });
+
+  it("el único movimiento posible", () => {
+    // solo se puede deslizar hacia la derecha
+    const board: Board = [
+      [2, 0],
+      [4, 0],
+    ];
+    const legal = (["left", "right", "up", "down"] as const).filter((d) => move(board, d).moved);
+    expect(legal).toEqual(["right"]);
+    expect(bestMove(board, 2)).toBe("right");
+  });
+
+  it("fusiona las dos fichas grandes en vez de separarlas", () => {
+    const board: Board = [
+      [1024, 1024, 2, 4],
+      [4, 2, 8, 2],
+      [2, 8, 4, 8],
+      [8, 4, 2, 4],
+    ];
+    const dir = bestMove(board, 2);
+    expect(dir === "left" || dir === "right").toBe(true);
+    expect(move(board, dir!).board.flat()).toContain(2048);
+  });
+
+  it("siempre devuelve un movimiento que mueve algo", () => {
+    const board: Board = [
+      [2, 2, 4, 8],
+      [0, 4, 0, 2],
+      [0, 0, 2, 0],
+      [0, 0, 0, 2],
+    ];
+    for (const depth of [1, 2, 3]) expect(move(board, bestMove(board, depth)!).moved).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+// ai.ts
+// IA del 2048 por expectimax, sin dependencias de React (se ejecuta en worker.ts).
+// - Nodos de jugador: el mejor de los cuatro movimientos de game.ts
+// - Nodos de azar: media sobre las celdas vacías con un 2 (0.9) o un 4 (0.1); en tableros grandes
+//   solo se prueba una muestra repartida de celdas para que la búsqueda no se dispare
+// - Se corta por profundidad o cuando la rama es muy improbable; las posiciones repetidas se cachean
+// - Evaluación por líneas: casillas vacías, fusiones posibles, monotonía y penalización por fichas grandes sueltas
+
+import { type Board, type Direction, move } from "./game";
+
+export const DEPTHS = [1, 2, 3, 4];
+export const DEFAULT_DEPTH = 3;
+
+const DIRECTIONS: Direction[] = ["left", "up", "right", "down"];
+
+// por debajo de esta probabilidad acumulada no se sigue bajando
+const PROB_CUTOFF = 0.0001;
+// celdas vacías que se prueban como mucho en cada nodo de azar
+const MAX_SPAWNS = 8;
+
+// pesos de la evaluación de cada fila y columna (en rangos: log2 de la ficha)
+const LINE_BASE = 200000;
+const EMPTY_WEIGHT = 270;
+const MERGE_WEIGHT = 700;
+const MONOTONICITY_WEIGHT = 47;
+const SUM_WEIGHT = 11;
+
+function evaluateLine(ranks: number[]) {
+  let empty = 0;
+  let merges = 0;
+  let sum = 0;
+  let prev = 0;
+  let run = 0;
+  for (const r of ranks) {
+    sum += Math.pow(r, 3.5);
+    if (r === 0) {
+      empty++;
+      continue;
+    }
+    if (r === prev) run++;
+    else if (run > 0) {
+      merges += 1 + run;
+      run = 0;
+    }
+    prev = r;
+  }
+  if (run > 0) merges += 1 + run;
+
+  let left = 0;
+  let right = 0;
+  for (let i = 1; i < ranks.length; i++) {
+    const a = Math.pow(ranks[i - 1], 4);
+    const b = Math.pow(ranks[i], 4);
+    if (a > b) left += a - b;
+    else right += b - a;
+  }
+  return (
+    LINE_BASE +
+    EMPTY_WEIGHT * empty +
+    MERGE_WEIGHT * merges -
+    MONOTONICITY_WEIGHT * Math.min(left, right) -
+    SUM_WEIGHT * sum
+  );
+}
+
+export function evaluate(b: Board) {
+  const ranks = b.map((row) => row.map((v) => (v === 0 ? 0 : Math.log2(v))));
+  let total = 0;
+  for (let i = 0; i < ranks.length; i++) {
+    total += evaluateLine(ranks[i]);
+    total += evaluateLine(ranks.map((row) => row[i]));
+  }
+  return total;
+}
+
+// expectimax con caché por búsqueda; devuelve el mejor movimiento o null si no queda ninguno
+export function bestMove(board: Board, depth = DEFAULT_DEPTH): Direction | null {
+  const cache = new Map<string, number>();
+
+  function chance(b: Board, d: number, prob: number): number {
+    if (d <= 0 || prob < PROB_CUTOFF) return evaluate(b);
+    const key = `${d}|${b.join(";")}`;
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+
+    const all: [number, number][] = [];
+    for (let r = 0; r < b.length; r++) for (let c = 0; c < b.length; c++) if (b[r][c] === 0) all.push([r, c]);
+    if (all.length === 0) return player(b, d, prob);
+    const step = Math.ceil(all.length / MAX_SPAWNS);
+    const empties = all.filter((_, i) => i % step === 0);
+    let total = 0;
+    for (const [r, c] of empties) {
+      b[r][c] = 2;
+      total += 0.9 * player(b, d, (prob * 0.9) / empties.length);
+      b[r][c] = 4;
+      total += 0.1 * player(b, d, (prob * 0.1) / empties.length);
+      b[r][c] = 0;
+    }
+    const value = total / empties.length;
+    cache.set(key, value);
+    return value;
+  }
+
+  function player(b: Board, d: number, prob: number): number {
+    let best = 0; // sin movimientos la partida está perdida
+    for (const dir of DIRECTIONS) {
+      const res = move(b, dir);
+      if (res.moved) best = Math.max(best, chance(res.board, d - 1, prob));
+    }
+    return best;
+  }
+
+  let choice: Direction | null = null;
+  let bestValue = -Infinity;
+  for (const dir of DIRECTIONS) {
+    const res = move(board, dir);
+    if (!res.moved) continue;
+    const value = chance(res.board, depth - 1, 1);
+    if (value > bestValue) {
+      bestValue = value;
+      choice = dir;
+    }
+  }
+  return choice;
+}
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import {
+  type Board,
+  finalState,
+  hasMoves,
+  legalMoves,
+  maxTile,
+  move,
+  newGame,
+  parseRecord,
+  playMove,
+  recordOf,
+  recordToText,
+  replayRecord,
+  slideAndMergeRow,
+} from "./game";
+
+describe("slideAndMergeRow", () => {
+  it("fusiona cada ficha como mucho una vez", () => {
+    expect(slideAndMergeRow([2, 2, 2, 2]).row).toEqual([4, 4, 0, 0]);
+    expect(slideAndMergeRow([4, 4, 8, 0]).row).toEqual([8, 8, 0, 0]);
+    expect(slideAndMergeRow([2, 2, 4, 4]).row).toEqual([4, 8, 0, 0]);
+  });
+
+  it("con tres iguales fusiona las dos primeras", () => {
+    expect(slideAndMergeRow([2, 2, 2, 0]).row).toEqual([4, 2, 0, 0]);
+    expect(slideAndMergeRow([0, 2, 2, 2]).row).toEqual([4, 2, 0, 0]);
+  });
+
+  it("fusiona a través de huecos", () => {
+    const res = slideAndMergeRow([2, 0, 0, 2]);
+    expect(res.row).toEqual([4, 0, 0, 0]);
+    expect(res.from).toEqual([[0, 3], [], [], []]);
+  });
+
+  it("suma a la puntuación el valor de las fusiones", () => {
+    expect(slideAndMergeRow([2, 2, 4, 4]).score).toBe(12);
+    expect(slideAndMergeRow([2, 4, 8, 16]).score).toBe(0);
+  });
+
+  it("indica si la fila se ha movido", () => {
+    expect(slideAndMergeRow([2, 4, 0, 0]).moved).toBe(false);
+    expect(slideAndMergeRow([0, 2, 4, 0]).moved).toBe(true);
+    expect(slideAndMergeRow([0, 0, 0, 0]).moved).toBe(false);
+  });
+
+  it("devuelve de qué posiciones sale cada ficha", () => {
+    expect(slideAndMergeRow([0, 4, 4, 2]).from).toEqual([[1, 2], [3], [], []]);
+  });
+});
+
+describe("move", () => {
+  const board: Board = [
+    [2, 0, 0, 2],
+    [0, 4, 0, 4],
+    [0, 0, 0, 0],
+    [8, 0, 8, 16],
+  ];
+
+  it("mueve en las cuatro direcciones", () => {
+    expect(move(board, "left").board).toEqual([
+      [4, 0, 0, 0],
+      [8, 0, 0, 0],
+      [0, 0, 0, 0],
+      [16, 16, 0, 0],
+    ]);
+    expect(move(board, "right").board[3]).toEqual([0, 0, 16, 16]);
+    expect(move(board, "up").board.map((r) => r[0])).toEqual([2, 8, 0, 0]);
+    expect(move(board, "down").board.map((r) => r[3])).toEqual([0, 2, 4, 16]);
+  });
+
+  it("las fuentes apuntan a las celdas del tablero original", () => {
+    // la columna 3 (2, 4, vacía, 16) sube sin fusiones: sus dos primeras fichas vienen de (0,3) y (1,3)
+    const { sources } = move(board, "up");
+    expect(sources[0][3]).toEqual([3]);
+    expect(sources[1][3]).toEqual([7]);
+  });
+
+  it("no mueve nada si no hay hueco ni fusión", () => {
+    expect(move([[2, 4], [8, 16]], "left").moved).toBe(false);
+  });
+});
+
+describe("fin de partida", () => {
+  const full: Board = [
+    [2, 4, 2],
+    [4, 2, 4],
+    [2, 4, 2],
+  ];
+
+  it("detecta tableros sin movimientos", () => {
+    expect(hasMoves(full)).toBe(false);
+    expect(legalMoves(full)).toEqual([]);
+  });
+
+  it("una pareja basta para seguir, solo en su dirección", () => {
+    const board: Board = [
+      [2, 4, 8],
+      [16, 32, 64],
+      [128, 256, 256],
+    ];
+    expect(hasMoves(board)).toBe(true);
+    expect(legalMoves(board).sort()).toEqual(["left", "right"]);
+  });
+
+  it("maxTile", () => {
+    expect(maxTile(full)).toBe(4);
+  });
+});
+
+describe("partidas con semilla", () => {
+  it("la misma semilla y los mismos movimientos dan la misma partida", () => {
+    let a = newGame(4, 123);
+    let b = newGame(4, 123);
+    expect(a.board).toEqual(b.board);
+    for (const dir of ["left", "up", "right", "down", "left"] as const) {
+      a = playMove(a, dir) ?? a;
+      b = playMove(b, dir) ?? b;
+    }
+    expect(a).toEqual(b);
+  });
+
+  it("empieza con dos fichas", () => {
+    expect(newGame(5, 7).board.flat().filter((v) => v !== 0)).toHaveLength(2);
+  });
+
+  it("playMove devuelve null si no se mueve nada", () => {
+    const game = { board: [[2, 4], [8, 16]], score: 0, rng: 1, seed: 1, moves: "" };
+    expect(playMove(game, "left")).toBeNull();
+  });
+
+  it("exporta y repite una partida grabada", () => {
+    let game = newGame(4, 99);
+    for (const dir of ["left", "up", "right", "down", "up", "left"] as const) game = playMove(game, dir) ?? game;
+    expect(parseRecord(recordToText(recordOf(game)))).toEqual({ ok: true, record: recordOf(game) });
+    const replayed = replayRecord(recordOf(game));
+    expect(replayed.ok && replayed.states.at(-1)).toEqual(game);
+    expect(replayed.ok && replayed.states).toHaveLength(game.moves.length + 1);
+    expect(finalState(recordOf(game))).toEqual({ ok: true, game });
+  });
+
+  it("rechaza partidas mal escritas o con movimientos imposibles", () => {
+    expect(parseRecord("2048 size=2 seed=1 moves=l")).toEqual({ ok: false, error: { code: "size", value: "2" } });
+    expect(parseRecord("2048 size=4 seed=abc")).toEqual({ ok: false, error: { code: "seed", value: "abc" } });
+    expect(parseRecord("2048 size=4 seed=1 moves=lx")).toEqual({
+      ok: false,
+      error: { code: "letter", letter: "x", position: 2 },
+    });
+    // esta partida termina sin movimientos: uno más ya no mueve nada
+    const moves = "lurd".repeat(10) + "lurlu";
+    const replayed = replayRecord({ size: 3, seed: 42, moves });
+    expect(replayed.ok && !hasMoves(replayed.states.at(-1)!.board)).toBe(true);
+    expect(replayRecord({ size: 3, seed: 42, moves: moves + "l" })).toEqual({
+      ok: false,
+      error: { code: "no-move", move: 46, letter: "l" },
+    });
+  });
+});
@@ -0,0 +1,253 @@
+// game.ts
+// Reglas del 2048 sin dependencias de React, para tableros NxN.
+// - Deslizar y fusionar filas (cada ficha se fusiona como mucho una vez por movimiento), indicando
+//   de qué celdas sale cada ficha para poder animar deslizamientos y fusiones
+// - Movimientos en las cuatro direcciones a partir de moveLeft con trasposiciones y filas invertidas
+// - Fichas nuevas con un generador con semilla (mulberry32, componentes/random.ts): la misma semilla y los mismos
+//   movimientos dan siempre la misma partida
+// - Partidas grabadas como semilla + movimientos (l/r/u/d) en una línea de texto para exportar y reproducir
+// - Movimientos posibles, detección de fin de partida y de ficha objetivo alcanzada
+
+import type { Messages } from "../componentes/idioma";
+import { hashSeed, nextRandom } from "../componentes/random";
+
+export type Board = number[][];
+
+export type Direction = "left" | "right" | "up" | "down";
+
+// sources[r][c]: índices (r * n + c) en el tablero de partida de las fichas que acaban en (r, c)
+export type MoveResult = { board: Board; moved: boolean; score: number; sources: number[][][] };
+
+// estado completo de una partida; rng es el estado del generador tras la última ficha
+export type Game = { board: Board; score: number; rng: number; seed: number; moves: string };
+
+export type GameRecord = { size: number; seed: number; moves: string };
+
+export const DIRECTION_LETTERS: Record<Direction, string> = { left: "l", right: "r", up: "u", down: "d" };
+
+export const SIZES = [3, 4, 5, 6, 7, 8];
+export const DEFAULT_SIZE = 4;
+export const TARGETS = [256, 512, 1024, 2048, 4096, 8192];
+export const DEFAULT_TARGET = 2048;
+
+export function emptyBoard(size: number): Board {
+  return Array.from({ length: size }, () => Array.from({ length: size }, () => 0));
+}
+
+export function cloneBoard(b: Board): Board {
+  return b.map((r) => r.slice());
+}
+
+export function randomSeed() {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+// semilla a partir de lo que escriba el usuario: un número tal cual, cualquier otro texto con un hash
+export function seedFromText(text: string): number {
+  const trimmed = text.trim();
+  if (/^\d+$/.test(trimmed) && Number(trimmed) < 4294967296) return Number(trimmed);
+  return hashSeed(trimmed);
+}
+
+// pone un 2 (o un 4 con probabilidad 0.1) en una celda vacía; modifica b y devuelve el nuevo estado del generador
+export function addRandomTile(b: Board, rng: number): number {
+  const empties: [number, number][] = [];
+  for (let r = 0; r < b.length; r++) for (let c = 0; c < b.length; c++) if (b[r][c] === 0) empties.push([r, c]);
+  if (empties.length === 0) return rng;
+  const [pick, afterPick] = nextRandom(rng);
+  const [value, afterValue] = nextRandom(afterPick);
+  const [r, c] = empties[Math.floor(pick * empties.length)];
+  b[r][c] = value < 0.1 ? 4 : 2;
+  return afterValue;
+}
+
+export function newGame(size: number, seed: number): Game {
+  const board = emptyBoard(size);
+  const rng = addRandomTile(board, addRandomTile(board, seed));
+  return { board, score: 0, rng, seed, moves: "" };
+}
+
+// aplica un movimiento y saca la ficha nueva; null si el movimiento no mueve nada
+export function playMove(game: Game, dir: Direction): Game | null {
+  const res = move(game.board, dir);
+  if (!res.moved) return null;
+  const board = cloneBoard(res.board);
+  const rng = addRandomTile(board, game.rng);
+  return { board, score: game.score + res.score, rng, seed: game.seed, moves: game.moves + DIRECTION_LETTERS[dir] };
+}
+
+export function recordOf(game: Game): GameRecord {
+  return { size: game.board.length, seed: game.seed, moves: game.moves };
+}
+
+export function recordToText(record: GameRecord) {
+  return `2048 size=${record.size} seed=${record.seed} moves=${record.moves}`;
+}
+
+// por qué no se puede leer o repetir una partida grabada; value null si falta el campo
+export type RecordError =
+  | { code: "size"; value: string | null }
+  | { code: "seed"; value: string | null }
+  | { code: "letter"; letter: string; position: number }
+  | { code: "no-move"; move: number; letter: string };
+
+export function parseRecord(text: string): { ok: true; record: GameRecord } | { ok: false; error: RecordError } {
+  const fields = new Map<string, string>();
+  for (const part of text.trim().split(/\s+/)) {
+    const eq = part.indexOf("=");
+    if (eq > 0) fields.set(part.slice(0, eq).toLowerCase(), part.slice(eq + 1));
+  }
+  const size = Number(fields.get("size"));
+  if (!SIZES.includes(size)) return { ok: false, error: { code: "size", value: fields.get("size") ?? null } };
+  const seedText = fields.get("seed");
+  if (!seedText || !/^\d+$/.test(seedText) || Number(seedText) >= 4294967296)
+    return { ok: false, error: { code: "seed", value: seedText ?? null } };
+  const moves = (fields.get("moves") ?? "").toLowerCase();
+  const bad = moves.search(/[^lrud]/);
+  if (bad >= 0) return { ok: false, error: { code: "letter", letter: moves[bad], position: bad + 1 } };
+  return { ok: true, record: { size, seed: Number(seedText), moves } };
+}
+
+const LETTER_DIRECTIONS: Record<string, Direction> = { l: "left", r: "right", u: "up", d: "down" };
+
+// repite la partida grabada pasando cada estado a onState, desde el inicial; error si un movimiento no mueve nada
+function replayMoves(record: GameRecord, onState: (game: Game) => void): RecordError | null {
+  let game = newGame(record.size, record.seed);
+  onState(game);
+  for (let i = 0; i < record.moves.length; i++) {
+    const next = playMove(game, LETTER_DIRECTIONS[record.moves[i]]);
+    if (!next) return { code: "no-move", move: i + 1, letter: record.moves[i] };
+    game = next;
+    onState(game);
+  }
+  return null;
+}
+
+// todos los estados de la partida grabada, desde el inicial (para verla paso a paso)
+export function replayRecord(record: GameRecord): { ok: true; states: Game[] } | { ok: false; error: RecordError } {
+  const states: Game[] = [];
+  const error = replayMoves(record, (game) => states.push(game));
+  return error ? { ok: false, error } : { ok: true, states };
+}
+
+// solo el estado final: no guarda los intermedios de partidas largas (verificación en el servidor)
+export function finalState(record: GameRecord): { ok: true; game: Game } | { ok: false; error: RecordError } {
+  let last = newGame(record.size, record.seed);
+  const error = replayMoves(record, (game) => (last = game));
+  return error ? { ok: false, error } : { ok: true, game: last };
+}
+
+export function recordErrorMessage(error: RecordError, t: Messages): string {
+  const messages = t.g2048.recordErrors;
+  switch (error.code) {
+    case "size":
+      return messages.size(error.value);
+    case "seed":
+      return messages.seed(error.value);
+    case "letter":
+      return messages.letter(error.letter, error.position);
+    case "no-move":
+      return messages.noMove(error.move, error.letter);
+  }
+}
+
+function transpose<T>(b: T[][]): T[][] {
+  return b.map((_, r) => b.map((row) => row[r]));
+}
+
+function reverseRows<T>(b: T[][]): T[][] {
+  return b.map((r) => r.slice().reverse());
+}
+
+// from[i]: posiciones de la fila de entrada que acaban en la posición i (dos si se fusionan, ninguna si queda vacía)
+export function slideAndMergeRow(row: number[]): { row: number[]; score: number; moved: boolean; from: number[][] } {
+  const compact = row.map((n, idx) => ({ n, idx })).filter((t) => t.n !== 0);
+  const merged: number[] = [];
+  const from: number[][] = [];
+  let score = 0;
+  let i = 0;
+  while (i < compact.length) {
+    if (i + 1 < compact.length && compact[i].n === compact[i + 1].n) {
+      const val = compact[i].n * 2;
+      merged.push(val);
+      from.push([compact[i].idx, compact[i + 1].idx]);
+      score += val;
+      i += 2;
+    } else {
+      merged.push(compact[i].n);
+      from.push([compact[i].idx]);
+      i += 1;
+    }
+  }
+  while (merged.length < row.length) {
+    merged.push(0);
+    from.push([]);
+  }
+  const moved = merged.some((v, idx) => v !== row[idx]);
+  return { row: merged, score, moved, from };
+}
+
+// cells lleva, en paralelo al tablero, el índice (r * n + c) de cada celda en el tablero original,
+// así las trasposiciones e inversiones no pierden de dónde viene cada ficha
+function moveLeft(b: Board, cells: number[][]): MoveResult {
+  let moved = false;
+  let score = 0;
+  const sources: number[][][] = [];
+  const next = b.map((row, r) => {
+    const res = slideAndMergeRow(row);
+    moved = moved || res.moved;
+    score += res.score;
+    sources.push(res.from.map((idxs) => idxs.map((idx) => cells[r][idx])));
+    return res.row;
+  });
+  return { board: next, moved, score, sources };
+}
+
+function moveRight(b: Board, cells: number[][]): MoveResult {
+  const r = moveLeft(reverseRows(b), reverseRows(cells));
+  return { board: reverseRows(r.board), moved: r.moved, score: r.score, sources: reverseRows(r.sources) };
+}
+
+function moveUp(b: Board, cells: number[][]): MoveResult {
+  const r = moveLeft(transpose(b), transpose(cells));
+  return { board: transpose(r.board), moved: r.moved, score: r.score, sources: transpose(r.sources) };
+}
+
+function moveDown(b: Board, cells: number[][]): MoveResult {
+  const r = moveRight(transpose(b), transpose(cells));
+  return { board: transpose(r.board), moved: r.moved, score: r.score, sources: transpose(r.sources) };
+}
+
+export function move(b: Board, dir: Direction): MoveResult {
+  const cells = b.map((row, r) => row.map((_, c) => r * b.length + c));
+  if (dir === "left") return moveLeft(b, cells);
+  if (dir === "right") return moveRight(b, cells);
+  if (dir === "up") return moveUp(b, cells);
+  return moveDown(b, cells);
+}
+
+export function boardsEqual(a: Board, b: Board) {
+  return a.length === b.length && a.every((row, r) => row.every((v, c) => v === b[r][c]));
+}
+
+export function hasMoves(b: Board) {
+  const n = b.length;
+  // si alguna celda vacía
+  for (let r = 0; r < n; r++) for (let c = 0; c < n; c++) if (b[r][c] === 0) return true;
+  // chequear merges posibles
+  for (let r = 0; r < n; r++)
+    for (let c = 0; c < n; c++) {
+      const v = b[r][c];
+      if ((c < n - 1 && b[r][c + 1] === v) || (r < n - 1 && b[r + 1][c] === v)) return true;
+    }
+  return false;
+}
+
+// direcciones que mueven alguna ficha; vacía cuando la partida ha terminado
+export function legalMoves(b: Board): Direction[] {
+  return (["left", "up", "right", "down"] as Direction[]).filter((dir) => move(b, dir).moved);
+}
+
+export function maxTile(b: Board) {
+  return Math.max(0, ...b.flat());
+}
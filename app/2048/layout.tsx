@@ -0,0 +1,9 @@
+import { gameMetadata } from "../componentes/idioma-servidor";
+
+export function generateMetadata() {
+  return gameMetadata("2048");
+}
+
+export default function Game2048Layout({ children }: { children: React.ReactNode }) {
+  return children;
+}
@@ -0,0 +1,648 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { useNotices } from "../componentes/avisos";
+import { board2048, type Entry } from "../componentes/clasificacion";
+import { type DailyResult, dailyResults, dailySeed, dayKey, recordDaily } from "../componentes/daily";
+import DailyPanel from "../componentes/reto";
+import { useHydrated } from "../componentes/hidratado";
+import ResultOverlay from "../componentes/resultado";
+import LeaderboardPanel from "../componentes/tabla-clasificacion";
+import { loadSaved, saveGame } from "../componentes/storage";
+import type { Messages } from "../componentes/idioma";
+import { useI18n } from "../componentes/idioma-cliente";
+import { recordEvent, unlockedMessage } from "../componentes/stats";
+import { formatTime, useElapsed } from "../componentes/timer";
+import { DEFAULT_DEPTH, DEPTHS } from "./ai";
+import {
+  DEFAULT_SIZE,
+  DEFAULT_TARGET,
+  type Direction,
+  type Game,
+  hasMoves,
+  maxTile,
+  newGame,
+  parseRecord,
+  playMove,
+  randomSeed,
+  recordOf,
+  recordErrorMessage,
+  recordToText,
+  replayRecord,
+  seedFromText,
+  SIZES,
+  TARGETS,
+} from "./game";
+import { type Tile, type Tiles, tilesAfterMove, tilesFromBoard } from "./tiles";
+import type { AiJob, AiReply } from "./worker";
+
+// 2048 con tablero configurable.
+// - Tamaños de 3x3 a 8x8 y ficha objetivo a elegir (cambiar cualquiera empieza una partida nueva)
+// - Al llegar al objetivo se muestra la victoria con la opción de seguir jugando
+// - La partida en curso (con su historial y su tiempo) y la mejor puntuación por tamaño se guardan
+//   en localStorage (componentes/storage.ts) y se restauran al volver
+// - Partidas con semilla: jugar una semilla concreta, exportar la partida (semilla + movimientos)
+//   y reproducirla movimiento a movimiento con una barra; Undo vuelve también al estado del generador
+// - IA expectimax en un Web Worker: Sugerir un movimiento o Autoplay con profundidad y velocidad ajustables;
+//   el autoplay se para al acabar la partida, al ganar o al pulsar cualquier tecla
+// - Fichas animadas (tiles.ts): deslizan a su nueva casilla, las fusiones hacen "pop", las nuevas aparecen
+//   y cada valor tiene su color
+// - Clasificación por tamaño (componentes/tabla-clasificacion.tsx): al terminar se envía la partida grabada
+//   y el servidor la repite para calcular la puntuación
+// - Reto diario: partida 4x4 con la semilla del día, se juega hasta que no quedan movimientos
+// - Tablero como rejilla ARIA con el valor de cada casilla y una región viva que anuncia cada movimiento
+//   (fusiones, puntos, ficha nueva), la victoria y el final de la partida
+
+// color de fondo por valor; a partir de 4096 todas iguales
+const TILE_COLORS: Record<number, string> = {
+  2: "bg-stone-100",
+  4: "bg-amber-100",
+  8: "bg-orange-200",
+  16: "bg-orange-300",
+  32: "bg-red-300",
+  64: "bg-red-400",
+  128: "bg-yellow-200",
+  256: "bg-yellow-300",
+  512: "bg-yellow-400",
+  1024: "bg-lime-300",
+  2048: "bg-lime-400",
+};
+
+function tileColor(value: number) {
+  return TILE_COLORS[value] ?? "bg-emerald-400";
+}
+
+// resultado de una entrada de la clasificación
+function formatEntry(e: Entry, t: Messages) {
+  return t.g2048.entry(e.primary, Number(e.detail), e.secondary);
+}
+
+// pausa entre movimientos del autoplay (ms)
+const SPEEDS: { id: keyof Messages["g2048"]["speeds"]; delay: number }[] = [
+  { id: "slow", delay: 600 },
+  { id: "normal", delay: 200 },
+  { id: "fast", delay: 50 },
+  { id: "max", delay: 0 },
+];
+
+// la partida guardada se lee al montar el juego, que solo se monta en el navegador ya hidratado
+export default function Game2048Page() {
+  return useHydrated() ? <Game2048 /> : null;
+}
+
+function Game2048() {
+  const { t } = useI18n();
+  const { notify, confirm } = useNotices();
+  // lo guardado de la visita anterior: partida a medias y mejores puntuaciones
+  const [saved] = useState(() => loadSaved()["2048"]);
+  const [target, setTarget] = useState(saved.current?.target ?? DEFAULT_TARGET);
+  const [game, setGame] = useState<Game>(() => saved.current?.game ?? newGame(DEFAULT_SIZE, randomSeed()));
+  const [bestBySize, setBestBySize] = useState<Record<number, number>>(saved.best);
+  const [tiles, setTiles] = useState<Tiles>(() => tilesFromBoard(game.board));
+  const [history, setHistory] = useState<Game[]>(saved.current?.history ?? []);
+  const [gameOver, setGameOver] = useState(false);
+  // won: se ha mostrado la victoria y aún no se ha elegido; keepGoing: se sigue jugando tras ganar
+  const [keepGoing, setKeepGoing] = useState(saved.current?.keepGoing ?? false);
+  const [won, setWon] = useState(() => !keepGoing && maxTile(game.board) >= target);
+  // día del reto diario si la partida actual es ese reto, y su resultado guardado
+  const [daily, setDaily] = useState<string | null>(saved.current?.daily ?? null);
+  // ha jugado el autoplay de la IA (o se siguió desde una repetición): el final no cuenta como del jugador
+  const [assisted, setAssisted] = useState(saved.current?.assisted ?? false);
+  const [dailyResult, setDailyResult] = useState<DailyResult | null>(() =>
+    saved.current?.daily ? (dailyResults("2048")[saved.current.daily] ?? null) : null
+  );
+  const [seedText, setSeedText] = useState("");
+  const [recordText, setRecordText] = useState("");
+  const [recordMessage, setRecordMessage] = useState<string | null>(null);
+  // repetición de una partida grabada: todos sus estados y el que se está viendo
+  const [replay, setReplay] = useState<{ states: Game[]; step: number } | null>(null);
+  // IA: la búsqueda va en un worker que se termina para cancelarla
+  const [depth, setDepth] = useState(DEFAULT_DEPTH);
+  const [speed, setSpeed] = useState(SPEEDS[1].delay);
+  const [thinking, setThinking] = useState(false);
+  const [autoplay, setAutoplay] = useState(false);
+  const [suggestion, setSuggestion] = useState<Direction | null>(null);
+  const [aiMessage, setAiMessage] = useState<string | null>(null);
+  // texto para lectores de pantalla tras cada movimiento
+  const [announcement, setAnnouncement] = useState("");
+  const workerRef = useRef<Worker | null>(null);
+  // el final de esta partida ya se ha registrado (deshacer y volver a perder no lo repite)
+  const recorded = useRef(false);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const [elapsed, setElapsed] = useElapsed(
+    saved.current?.elapsed ?? 0,
+    game.moves.length > 0 && !gameOver && !won && !replay
+  );
+
+  // se guarda la partida mientras esté empezada y no haya terminado
+  useEffect(() => {
+    const started = game.moves.length > 0 && !gameOver;
+    saveGame("2048", {
+      current: started
+        ? { game, history, target, keepGoing, elapsed, daily: daily ?? undefined, assisted: assisted || undefined }
+        : null,
+    });
+  }, [game, history, target, keepGoing, elapsed, gameOver, daily, assisted]);
+
+  const shown = replay ? replay.states[replay.step] : game;
+  const { board, score } = shown;
+  const size = game.board.length;
+  const best = bestBySize[size] ?? 0;
+
+  function updateBest(newScore: number) {
+    if (newScore <= best) return;
+    const next = { ...bestBySize, [size]: newScore };
+    setBestBySize(next);
+    saveGame("2048", { best: next });
+  }
+
+  // helped: el movimiento lo ha decidido la IA
+  function applyMove(dir: Direction, helped = assisted) {
+    if (gameOver || won || replay) return;
+    const next = playMove(game, dir);
+    if (!next) return;
+    setAssisted(helped);
+
+    const nextTiles = tilesAfterMove(tiles, game.board, dir, next.board);
+    const merges = nextTiles.list.filter((tile) => tile.kind === "merged").map((tile) => tile.value);
+    const added = nextTiles.list.find((tile) => tile.kind === "new");
+    const moveText = [
+      t.g2048.announceMove(t.g2048.directions[dir], merges, next.score - game.score, next.score),
+      added ? t.g2048.announceNewTile(added.value, added.row + 1, added.col + 1) : "",
+    ].join(" ");
+    setHistory((h) => [...h, game].slice(-20));
+    setGame(next);
+    setTiles(nextTiles);
+    setSuggestion(null);
+    setAnnouncement(moveText);
+    updateBest(next.score);
+    if (!keepGoing && maxTile(next.board) >= target) {
+      setWon(true);
+      setAutoplay(false);
+      setAnnouncement(`${moveText} ${t.g2048.won} ${t.g2048.wonDetail(target, next.score)}`);
+    } else if (!hasMoves(next.board)) {
+      setAnnouncement(`${moveText} ${t.g2048.gameOver}. ${t.g2048.finalScore(next.score)}`);
+      finishGame(next, helped);
+    }
+  }
+
+  // sin movimientos: fin de la partida; va a las estadísticas y al reto una sola vez
+  // (también si la ficha objetivo salió en el último movimiento y se pulsa "Seguir jugando")
+  function finishGame(final: Game, helped: boolean) {
+    setGameOver(true);
+    setAutoplay(false);
+    // una partida de la IA no cuenta ni en las estadísticas ni en el reto
+    if (recorded.current || helped) return;
+    recorded.current = true;
+    const unlocked = recordEvent({
+      game: "2048",
+      type: "finished",
+      size,
+      score: final.score,
+      maxTile: maxTile(final.board),
+      moves: final.moves.length,
+      elapsed,
+    });
+    const achievements = unlockedMessage(unlocked, t);
+    if (achievements) notify(achievements, "success");
+    if (daily) setDailyResult(recordDaily("2048", daily, t.g2048.dailyResult(final.score, maxTile(final.board))));
+  }
+
+  // lanza una búsqueda en un worker nuevo; si había otra en curso se descarta
+  function runAi(b: Game["board"], onMove: (dir: Direction | null) => void) {
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL("./worker.ts", import.meta.url));
+    workerRef.current = worker;
+    setThinking(true);
+    worker.onmessage = (e: MessageEvent<AiReply>) => {
+      worker.terminate();
+      workerRef.current = null;
+      setThinking(false);
+      onMove(e.data.dir);
+    };
+    worker.onerror = () => {
+      worker.terminate();
+      workerRef.current = null;
+      setThinking(false);
+      setAutoplay(false);
+      setAiMessage(t.g2048.aiFailed);
+    };
+    const job: AiJob = { type: "move", board: b, depth };
+    worker.postMessage(job);
+  }
+
+  function stopAi() {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setThinking(false);
+    setAutoplay(false);
+    setSuggestion(null);
+  }
+
+  function userMove(dir: Direction) {
+    stopAi();
+    applyMove(dir);
+  }
+
+  function handleSuggest() {
+    setAiMessage(null);
+    runAi(game.board, (dir) => {
+      setSuggestion(dir);
+      if (!dir) setAiMessage(t.g2048.noMoves);
+    });
+  }
+
+  function toggleAutoplay() {
+    if (autoplay) stopAi();
+    else {
+      setAiMessage(null);
+      setSuggestion(null);
+      setAutoplay(true);
+    }
+  }
+
+  // autoplay: tras la pausa elegida pide un movimiento y lo aplica; mientras piensa no se programa otro
+  useEffect(() => {
+    if (!autoplay || thinking) return;
+    const id = setTimeout(() => runAi(game.board, (dir) => (dir ? applyMove(dir, true) : setAutoplay(false))), speed);
+    return () => clearTimeout(id);
+  });
+
+  // empieza desde un estado cualquiera (partida nueva o un punto de una repetición)
+  function resume(state: Game, previous: Game[]) {
+    stopAi();
+    setGame(state);
+    setTiles(tilesFromBoard(state.board, tiles.nextId));
+    setHistory(previous.slice(-20));
+    setWon(false);
+    setKeepGoing(maxTile(state.board) >= target);
+    setGameOver(!hasMoves(state.board));
+    setElapsed(0);
+    setAnnouncement("");
+    setDaily(null);
+    // seguir desde un punto de una repetición no es una partida jugada desde el principio
+    setAssisted(state.moves.length > 0);
+    recorded.current = false;
+    setReplay(null);
+  }
+
+  function startGame(n: number, seed = randomSeed()) {
+    resume(newGame(n, seed), []);
+  }
+
+  // el reto no tiene objetivo: cuenta la puntuación al quedarse sin movimientos
+  function startDaily() {
+    const day = dayKey();
+    startGame(DEFAULT_SIZE, dailySeed("2048", day));
+    setKeepGoing(true);
+    setDaily(day);
+    setDailyResult(dailyResults("2048")[day] ?? null);
+  }
+
+  function handleSize(n: number) {
+    startGame(n);
+  }
+
+  function handleTarget(value: number) {
+    setTarget(value);
+    startGame(size);
+  }
+
+  // empezar otra con una partida en juego se confirma antes
+  function handleReset() {
+    if (game.moves.length === 0 || gameOver) startGame(size);
+    else confirm(t.g2048.confirmReset, t.g2048.reset).then((ok) => ok && startGame(size));
+  }
+
+  function continueGame() {
+    setWon(false);
+    setKeepGoing(true);
+    if (hasMoves(game.board)) return;
+    setAnnouncement(`${t.g2048.gameOver}. ${t.g2048.finalScore(game.score)}`);
+    finishGame(game, assisted);
+  }
+
+  function undo() {
+    if (history.length === 0) return;
+    stopAi();
+    setGame(history[history.length - 1]);
+    setTiles(tilesFromBoard(history[history.length - 1].board, tiles.nextId));
+    setGameOver(false);
+    setWon(false);
+    setHistory(history.slice(0, -1));
+    setAnnouncement(t.g2048.announceUndo(history[history.length - 1].score));
+  }
+
+  function handlePlaySeed() {
+    if (seedText.trim() === "") return;
+    startGame(size, seedFromText(seedText));
+  }
+
+  function handleExport() {
+    const text = recordToText(recordOf(game));
+    setRecordText(text);
+    navigator.clipboard.writeText(text).then(
+      () => setRecordMessage(t.g2048.copied),
+      () => setRecordMessage(null)
+    );
+  }
+
+  function handleReplay() {
+    const parsed = parseRecord(recordText);
+    const replayed = parsed.ok ? replayRecord(parsed.record) : parsed;
+    if (!replayed.ok) {
+      setRecordMessage(recordErrorMessage(replayed.error, t));
+      return;
+    }
+    stopAi();
+    setReplay({ states: replayed.states, step: 0 });
+    setRecordMessage(null);
+  }
+
+  function replayStep(step: number) {
+    if (!replay) return;
+    setReplay({ ...replay, step: Math.max(0, Math.min(replay.states.length - 1, step)) });
+  }
+
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      // que escribir la semilla o la partida no mueva las fichas
+      if (e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLInputElement) return;
+      // cualquier tecla para el autoplay
+      if (autoplay) {
+        stopAi();
+        return;
+      }
+      const key = e.key;
+      if (key === "ArrowLeft" || key.toLowerCase() === "a") userMove("left");
+      if (key === "ArrowRight" || key.toLowerCase() === "d") userMove("right");
+      if (key === "ArrowUp" || key.toLowerCase() === "w") userMove("up");
+      if (key === "ArrowDown" || key.toLowerCase() === "s") userMove("down");
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
+  // las fichas se encogen con el tamaño para que el tablero quepa
+  // en la repetición las fichas se colocan sin animar
+  const shownTiles: Tile[] = replay ? tilesFromBoard(board).list : tiles.list;
+  const n = board.length;
+  const textSize = n <= 4 ? "text-lg" : n <= 6 ? "text-base" : "text-xs";
+
+  return (
+    <div className="p-4 max-w-md mx-auto">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-xl font-semibold">2048 (TSX)</h2>
+        <div className="flex gap-2">
+          <div className="text-center">
+            <div className="text-sm text-gray-600">{t.g2048.score}</div>
+            <div className="font-bold">{score}</div>
+          </div>
+          <div className="text-center">
+            <div className="text-sm text-gray-600">{t.g2048.time}</div>
+            <div className="font-bold">{formatTime(elapsed)}</div>
+          </div>
+          <div className="text-center">
+            <div className="text-sm text-gray-600">{t.g2048.best(size)}</div>
+            <div className="font-bold">{best}</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex gap-3 mb-3 text-sm">
+        <label className="flex items-center gap-1">
+          {t.g2048.size}
+          <select value={size} onChange={(e) => handleSize(Number(e.target.value))} className="px-2 py-1 border rounded">
+            {SIZES.map((n) => (
+              <option key={n} value={n}>
+                {n}x{n}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          {t.g2048.target}
+          <select value={target} onChange={(e) => handleTarget(Number(e.target.value))} className="px-2 py-1 border rounded">
+            {TARGETS.map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button onClick={startDaily} className="px-3 py-1 border rounded">
+          {t.daily.button}
+        </button>
+      </div>
+      {daily && <DailyPanel game="2048" day={daily} result={dailyResult} />}
+
+      <div className="relative">
+        {/* las casillas de fondo forman la rejilla accesible; las fichas animadas se ocultan al lector */}
+        <div
+          role="grid"
+          aria-label={t.g2048.board}
+          className="grid gap-2 bg-gray-300 p-3 rounded"
+          style={{ gridTemplateColumns: `repeat(${n}, minmax(0, 1fr))` }}
+        >
+          {board.map((row, r) => (
+            <div key={r} role="row" className="contents">
+              {row.map((value, c) => (
+                <div
+                  key={c}
+                  role="gridcell"
+                  aria-label={t.g2048.cell(r + 1, c + 1, value === 0 ? t.g2048.empty : String(value))}
+                  className="aspect-square rounded bg-gray-100"
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+        {/* fichas encima de las casillas: la posición va en transform para que el deslizamiento se anime;
+            la aparición y el pop van en el div interior para no pisar ese transform */}
+        <div className="absolute inset-3 pointer-events-none" aria-hidden>
+          {shownTiles.map((tile) => (
+            <div
+              key={tile.id}
+              className={`absolute top-0 left-0 transition-transform duration-100 ${tile.kind === "gone" ? "z-0" : "z-10"}`}
+              style={{
+                width: `calc((100% - ${(n - 1) * 0.5}rem) / ${n})`,
+                height: `calc((100% - ${(n - 1) * 0.5}rem) / ${n})`,
+                transform: `translate(calc(${tile.col} * (100% + 0.5rem)), calc(${tile.row} * (100% + 0.5rem)))`,
+              }}
+            >
+              <div
+                className={`w-full h-full flex items-center justify-center rounded ${textSize} font-semibold ${tileColor(tile.value)} contraste:border-2 contraste:border-black ${
+                  tile.kind === "new" ? "tile-new" : tile.kind === "merged" ? "tile-merged" : ""
+                }`}
+              >
+                {tile.value}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* cerrar el cartel de victoria es seguir jugando: con él oculto no se podría mover */}
+        {won && !replay && (
+          <ResultOverlay outcome="won" title={t.g2048.won} detail={t.g2048.wonDetail(target, score)} onClose={continueGame}>
+            <button onClick={continueGame} className="px-3 py-2 border rounded bg-white">
+              {t.g2048.keepPlaying}
+            </button>
+            <button onClick={() => startGame(size)} className="px-3 py-2 border rounded bg-white">
+              {t.g2048.newGame}
+            </button>
+          </ResultOverlay>
+        )}
+        {gameOver && !replay && (
+          <ResultOverlay outcome="lost" title={t.g2048.gameOver} detail={t.g2048.finalScore(score)}>
+            <button onClick={() => startGame(size)} className="px-3 py-2 border rounded bg-white">
+              {t.g2048.newGame}
+            </button>
+            {history.length > 0 && (
+              <button onClick={undo} className="px-3 py-2 border rounded bg-white">
+                {t.g2048.undo}
+              </button>
+            )}
+          </ResultOverlay>
+        )}
+      </div>
+
+      <div className="flex gap-2 mt-3">
+        {(["up", "left", "right", "down"] as Direction[]).map((dir) => (
+          <button
+            key={dir}
+            onClick={() => userMove(dir)}
+            className={`px-3 py-2 border rounded ${suggestion === dir ? "bg-yellow-100" : ""}`}
+          >
+            {t.g2048.directions[dir]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+        <button onClick={handleSuggest} className="px-3 py-2 border rounded" disabled={thinking || autoplay || gameOver || won || !!replay}>
+          {t.g2048.suggest}
+        </button>
+        <button onClick={toggleAutoplay} className="px-3 py-2 border rounded" disabled={!autoplay && (gameOver || won || !!replay)}>
+          {autoplay ? t.g2048.stop : t.g2048.autoplay}
+        </button>
+        <label className="flex items-center gap-1">
+          {t.g2048.depth}
+          <select value={depth} onChange={(e) => setDepth(Number(e.target.value))} className="px-2 py-1 border rounded">
+            {DEPTHS.map((d) => (
+              <option key={d} value={d}>
+                {d}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          {t.g2048.speed}
+          <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))} className="px-2 py-1 border rounded">
+            {SPEEDS.map((sp) => (
+              <option key={sp.id} value={sp.delay}>
+                {t.g2048.speeds[sp.id]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {thinking && !autoplay && <span className="text-gray-600">{t.g2048.thinking}</span>}
+      </div>
+      {suggestion && <p className="mt-2 text-sm text-gray-700">{t.g2048.suggestion(t.g2048.directions[suggestion])}</p>}
+      {aiMessage && <p className="mt-2 text-sm text-gray-700">{aiMessage}</p>}
+
+      <div className="flex gap-2 mt-3">
+        <button onClick={handleReset} className="px-3 py-2 border rounded">{t.g2048.reset}</button>
+        <button onClick={undo} className="px-3 py-2 border rounded" disabled={history.length === 0 || !!replay}>{t.g2048.undo}</button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+        <span>
+          {t.g2048.seed} <span className="font-mono">{shown.seed}</span>
+        </span>
+        <input
+          value={seedText}
+          onChange={(e) => setSeedText(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handlePlaySeed()}
+          className="w-32 px-2 py-1 border rounded"
+          placeholder={t.g2048.otherSeed}
+        />
+        <button onClick={handlePlaySeed} className="px-3 py-1 border rounded" disabled={seedText.trim() === ""}>
+          {t.g2048.playSeed}
+        </button>
+      </div>
+
+      {replay && (
+        <div className="mt-3 p-2 border rounded text-sm">
+          <div className="flex items-center gap-2">
+            <button onClick={() => replayStep(replay.step - 1)} className="px-2 py-1 border rounded" disabled={replay.step === 0}>
+              ◀
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={replay.states.length - 1}
+              value={replay.step}
+              onChange={(e) => replayStep(Number(e.target.value))}
+              className="flex-1"
+              aria-label={t.g2048.replayPosition}
+            />
+            <button
+              onClick={() => replayStep(replay.step + 1)}
+              className="px-2 py-1 border rounded"
+              disabled={replay.step === replay.states.length - 1}
+            >
+              ▶
+            </button>
+          </div>
+          <div className="mt-1 text-gray-700">{t.g2048.replayStep(replay.step, replay.states.length - 1)}</div>
+          <div className="flex flex-wrap gap-2 mt-2">
+            <button
+              onClick={() => resume(replay.states[replay.step], replay.states.slice(0, replay.step))}
+              className="px-3 py-2 border rounded"
+            >
+              {t.g2048.playFromHere}
+            </button>
+            <button onClick={() => startGame(replay.states[0].board.length, replay.states[0].seed)} className="px-3 py-2 border rounded">
+              {t.g2048.playSeed}
+            </button>
+            <button onClick={() => setReplay(null)} className="px-3 py-2 border rounded">
+              {t.g2048.exit}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <details className="mt-3 text-sm">
+        <summary className="cursor-pointer">{t.g2048.record}</summary>
+        <textarea
+          value={recordText}
+          onChange={(e) => setRecordText(e.target.value)}
+          rows={3}
+          className="w-full mt-2 p-2 border rounded font-mono text-xs"
+          placeholder="2048 size=4 seed=123 moves=lurd"
+        />
+        <div className="flex flex-wrap gap-2 mt-2">
+          <button onClick={handleExport} className="px-3 py-2 border rounded">{t.g2048.export}</button>
+          <button onClick={handleReplay} className="px-3 py-2 border rounded">{t.g2048.replay}</button>
+        </div>
+        {recordMessage && <p className="mt-2 text-gray-700">{recordMessage}</p>}
+      </details>
+
+      <p role="status" className="sr-only">
+        {announcement}
+      </p>
+
+      {!replay && (
+        <LeaderboardPanel
+          board={board2048(size)}
+          result={gameOver && !assisted ? { game: "2048", record: recordToText(recordOf(game)) } : null}
+          format={(e) => formatEntry(e, t)}
+        />
+      )}
+
+      <p className="mt-3 text-sm text-gray-600">{t.g2048.help(target)}</p>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { type Board, move } from "./game";
+import { tilesAfterMove, tilesFromBoard } from "./tiles";
+
+describe("tilesFromBoard", () => {
+  it("una ficha por casilla ocupada con ids a partir de nextId", () => {
+    const tiles = tilesFromBoard(
+      [
+        [2, 0],
+        [0, 4],
+      ],
+      10
+    );
+    expect(tiles.list).toEqual([
+      { id: 10, value: 2, row: 0, col: 0, kind: "moved" },
+      { id: 11, value: 4, row: 1, col: 1, kind: "moved" },
+    ]);
+    expect(tiles.nextId).toBe(12);
+  });
+});
+
+describe("tilesAfterMove", () => {
+  // el tablero tras el movimiento con la ficha nueva puesta a mano
+  function after(before: Board, dir: "left" | "right" | "up" | "down", spawn: [number, number, number]) {
+    const board = move(before, dir).board.map((r) => r.slice());
+    board[spawn[0]][spawn[1]] = spawn[2];
+    return board;
+  }
+
+  it("una ficha que se desliza conserva su id", () => {
+    const before: Board = [
+      [0, 0, 0, 2],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ];
+    const prev = tilesFromBoard(before);
+    const next = tilesAfterMove(prev, before, "left", after(before, "left", [3, 3, 2]));
+    expect(next.list).toContainEqual({ id: prev.list[0].id, value: 2, row: 0, col: 0, kind: "moved" });
+    expect(next.list).toContainEqual({ id: prev.nextId, value: 2, row: 3, col: 3, kind: "new" });
+  });
+
+  it("en una fusión las dos de origen se van y aparece una nueva", () => {
+    const before: Board = [
+      [2, 2, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ];
+    const prev = tilesFromBoard(before);
+    const next = tilesAfterMove(prev, before, "left", after(before, "left", [2, 2, 4]));
+    const at00 = next.list.filter((t) => t.row === 0 && t.col === 0);
+    expect(at00.map((t) => t.kind).sort()).toEqual(["gone", "gone", "merged"]);
+    expect(at00.find((t) => t.kind === "merged")?.value).toBe(4);
+    expect(new Set(next.list.map((t) => t.id)).size).toBe(next.list.length);
+  });
+
+  it("las fichas que se fueron no pasan al siguiente movimiento", () => {
+    const before: Board = [
+      [2, 2, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ];
+    const first = after(before, "left", [3, 0, 2]);
+    const tiles = tilesAfterMove(tilesFromBoard(before), before, "left", first);
+    const second = after(first, "right", [1, 1, 2]);
+    const next = tilesAfterMove(tiles, first, "right", second);
+    expect(next.list.some((t) => t.kind === "gone")).toBe(false);
+    expect(next.list.map((t) => t.value).sort()).toEqual([2, 2, 4]);
+  });
+});
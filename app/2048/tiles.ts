@@ -0,0 +1,47 @@
+// tiles.ts
+// Fichas con identidad para animar el tablero del 2048 (game.ts sigue trabajando con números).
+// - Una ficha que solo se desliza conserva su id, así el navegador puede animar el cambio de posición
+// - En una fusión las dos fichas de origen se deslizan hasta el destino ("gone") y aparece otra nueva encima ("merged")
+// - La ficha que sale tras el movimiento es "new"; las fichas "gone" se descartan en el movimiento siguiente
+
+import { type Board, type Direction, move } from "./game";
+
+export type Tile = { id: number; value: number; row: number; col: number; kind: "new" | "merged" | "moved" | "gone" };
+
+export type Tiles = { list: Tile[]; nextId: number };
+
+// fichas sin animación para un tablero cualquiera (partida nueva, Undo, repetición); nextId evita reutilizar ids
+export function tilesFromBoard(board: Board, nextId = 1): Tiles {
+  const list: Tile[] = [];
+  board.forEach((row, r) =>
+    row.forEach((value, c) => {
+      if (value !== 0) list.push({ id: nextId++, value, row: r, col: c, kind: "moved" });
+    })
+  );
+  return { list, nextId };
+}
+
+// fichas tras mover `before` en `dir`; `after` es el tablero resultante ya con la ficha nueva
+export function tilesAfterMove(prev: Tiles, before: Board, dir: Direction, after: Board): Tiles {
+  const n = before.length;
+  const { sources } = move(before, dir);
+  const byCell = new Map<number, Tile>();
+  for (const t of prev.list) if (t.kind !== "gone") byCell.set(t.row * n + t.col, t);
+
+  const list: Tile[] = [];
+  let nextId = prev.nextId;
+  after.forEach((row, r) =>
+    row.forEach((value, c) => {
+      if (value === 0) return;
+      const from = sources[r][c].map((idx) => byCell.get(idx));
+      // si falta alguna ficha previa (no debería) se cae en el caso de la fusión y la ficha simplemente aparece
+      if (from.length === 1 && from[0]) list.push({ ...from[0], value, row: r, col: c, kind: "moved" });
+      else if (from.length === 0) list.push({ id: nextId++, value, row: r, col: c, kind: "new" });
+      else {
+        for (const t of from) if (t) list.push({ ...t, row: r, col: c, kind: "gone" });
+        list.push({ id: nextId++, value, row: r, col: c, kind: "merged" });
+      }
+    })
+  );
+  return { list, nextId };
+}
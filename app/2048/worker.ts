@@ -0,0 +1,15 @@
+// worker.ts
+// Web Worker del 2048: la búsqueda expectimax corre fuera del hilo principal para no congelar la pestaña.
+// Para cancelar una búsqueda la página termina el worker y crea otro.
+
+import { bestMove } from "./ai";
+import type { Board, Direction } from "./game";
+
+export type AiJob = { type: "move"; board: Board; depth: number };
+
+export type AiReply = { type: "move"; dir: Direction | null };
+
+addEventListener("message", (e: MessageEvent<AiJob>) => {
+  const reply: AiReply = { type: "move", dir: bestMove(e.data.board, e.data.depth) };
+  postMessage(reply);
+});
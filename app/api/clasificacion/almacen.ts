@@ -0,0 +1,69 @@
+// almacen.ts
+// Tablas de la clasificación guardadas en un archivo JSON del servidor.
+// - Ruta en la variable de entorno CLASIFICACION_FILE o data/clasificacion.json dentro del proyecto
+// - Cada tabla guarda como mucho MAX_PER_BOARD entradas ordenadas, una por nombre (sin distinguir mayúsculas)
+// - Las escrituras van en cola para que dos envíos a la vez no se pisen; se escribe a un temporal y se renombra
+//   para no dejar el archivo a medias
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { compareEntries, type Entry, gameOfBoard } from "../../componentes/clasificacion";
+import type { GameId } from "../../componentes/storage";
+
+type Tables = { version: 1; boards: Record<string, Entry[]> };
+
+export const MAX_PER_BOARD = 100;
+
+const FILE = process.env.CLASIFICACION_FILE ?? path.join(process.cwd(), "data", "clasificacion.json");
+
+let queue: Promise<unknown> = Promise.resolve();
+
+// un archivo que no existe es una clasificación vacía; uno ilegible es un error (no se sobrescribe)
+async function readTables(): Promise<Tables> {
+  let raw: string;
+  try {
+    raw = await readFile(FILE, "utf8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return { version: 1, boards: {} };
+    throw e;
+  }
+  return JSON.parse(raw) as Tables;
+}
+
+async function writeTables(tables: Tables) {
+  await mkdir(path.dirname(FILE), { recursive: true });
+  const tmp = `${FILE}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(tables));
+  await rename(tmp, FILE);
+}
+
+// las lecturas también esperan a la cola para no ver una escritura a medias
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+export function topEntries(board: string, top: number): Promise<Entry[]> {
+  return enqueue(async () => ((await readTables()).boards[board] ?? []).slice(0, top));
+}
+
+// añade la entrada si mejora la que ya tenía ese nombre; devuelve el puesto (desde 1) de la mejor
+// entrada del nombre, o null si se queda fuera de la tabla
+export function addEntry(game: GameId, board: string, entry: Entry): Promise<number | null> {
+  if (gameOfBoard(board) !== game) return Promise.reject(new Error(`La tabla ${board} no es de ${game}.`));
+  return enqueue(async () => {
+    const tables = await readTables();
+    const list = tables.boards[board] ?? [];
+    const sameName = (e: Entry) => e.name.toLowerCase() === entry.name.toLowerCase();
+    const previous = list.find(sameName);
+    if (!previous || compareEntries(game, entry, previous) < 0) {
+      tables.boards[board] = [...list.filter((e) => !sameName(e)), entry]
+        .sort((a, b) => compareEntries(game, a, b))
+        .slice(0, MAX_PER_BOARD);
+      await writeTables(tables);
+    }
+    const rank = tables.boards[board]?.findIndex(sameName) ?? -1;
+    return rank >= 0 ? rank + 1 : null;
+  });
+}
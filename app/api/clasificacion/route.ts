@@ -0,0 +1,34 @@
+// route.ts
+// API de la clasificación (tipos y llamadas del cliente en componentes/clasificacion.ts).
+// - GET /api/clasificacion?tabla=2048:4&top=10 → { entries } con las mejores entradas de esa tabla
+// - POST /api/clasificacion con un Submission → la partida se repite en el servidor (verificar.ts) y, si es
+//   válida, se guarda (almacen.ts); responde { ok, entry, rank } o { ok: false, error } con estado 400
+// Los errores son códigos (LeaderboardError); el cliente los escribe en su idioma
+
+import { type NextRequest } from "next/server";
+import { type Entry, gameOfBoard, type SubmitReply, TOP_DEFAULT } from "../../componentes/clasificacion";
+import { addEntry, MAX_PER_BOARD, topEntries } from "./almacen";
+import { verifySubmission } from "./verificar";
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const board = params.get("tabla") ?? "";
+  if (!gameOfBoard(board) || board.length > 300) return Response.json({ error: { code: "bad-board" } }, { status: 400 });
+  const top = Math.min(MAX_PER_BOARD, Math.max(1, Number(params.get("top")) || TOP_DEFAULT));
+  const entries: Entry[] = await topEntries(board, top);
+  return Response.json({ entries });
+}
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ ok: false, error: { code: "bad-body" } } satisfies SubmitReply, { status: 400 });
+  }
+  const verified = await verifySubmission(body);
+  if (!verified.ok) return Response.json(verified satisfies SubmitReply, { status: 400 });
+  const entry: Entry = { ...verified.entry, at: Date.now() };
+  const rank = await addEntry(verified.game, verified.board, entry);
+  return Response.json({ ok: true, entry, rank } satisfies SubmitReply);
+}
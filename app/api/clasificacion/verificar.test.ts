@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { board2048 } from "../../componentes/clasificacion";
+import { finalState, maxTile, recordToText } from "../../2048/game";
+import { levelKey, parseLevel } from "../../sokoban/sokoban";
+import { toLine } from "../../sudoku/format";
+import { cloneBoard, solveBoard, STARTING_BOARD } from "../../sudoku/sudoku";
+import { verifySubmission } from "./verificar";
+
+// partida de 3x3 que acaba sin movimientos (la misma que en las pruebas del 2048)
+const FINISHED = { size: 3, seed: 42, moves: "lurd".repeat(10) + "lurlu" };
+
+// primer nivel de public/sokoban/inicio.sok
+const FIRST_LEVEL = levelKey(parseLevel(["#####", "#   #", "# $@#", "# . #", "#####"].join("\n")));
+
+const SOLUTION = solveBoard(cloneBoard(STARTING_BOARD))!;
+const sudoku = (solution: string, elapsed: number) => ({
+  name: "Ana",
+  game: "sudoku",
+  puzzle: toLine(STARTING_BOARD, "0"),
+  solution,
+  size: 9,
+  mode: "classic",
+  elapsed,
+});
+
+describe("verifySubmission", () => {
+  it("rechaza cuerpos que no son un objeto y nombres vacíos o largos", async () => {
+    expect(await verifySubmission("hola")).toEqual({ ok: false, error: { code: "bad-body" } });
+    expect(await verifySubmission({ name: "  ", game: "2048" })).toEqual({ ok: false, error: { code: "bad-name" } });
+    expect(await verifySubmission({ name: "x".repeat(21), game: "2048" })).toMatchObject({ ok: false });
+    expect(await verifySubmission({ name: "Ana", game: "tetris" })).toEqual({
+      ok: false,
+      error: { code: "unknown-game" },
+    });
+  });
+
+  it("2048: repite la partida y saca los datos de la repetición", async () => {
+    const result = await verifySubmission({ name: " Ana\u0007 ", game: "2048", record: recordToText(FINISHED) });
+    const game = finalState(FINISHED);
+    expect(game.ok).toBe(true);
+    if (!game.ok) return;
+    expect(result).toEqual({
+      ok: true,
+      game: "2048",
+      board: board2048(3),
+      entry: {
+        name: "Ana",
+        primary: game.game.score,
+        secondary: FINISHED.moves.length,
+        detail: String(maxTile(game.game.board)),
+      },
+    });
+  });
+
+  it("2048: solo partidas terminadas y bien grabadas", async () => {
+    const unfinished = recordToText({ ...FINISHED, moves: "lurd" });
+    expect(await verifySubmission({ name: "Ana", game: "2048", record: unfinished })).toEqual({
+      ok: false,
+      error: { code: "not-finished" },
+    });
+    expect(await verifySubmission({ name: "Ana", game: "2048", record: "2048 size=3 seed=42 moves=lx" })).toEqual({
+      ok: false,
+      error: { code: "record", error: { code: "letter", letter: "x", position: 2 } },
+    });
+    expect(await verifySubmission({ name: "Ana", game: "2048", record: 42 })).toEqual({
+      ok: false,
+      error: { code: "bad-record" },
+    });
+  });
+
+  it("Sokoban: la solución tiene que resolver un nivel incluido", async () => {
+    const submit = (level: string, lurd: string) => verifySubmission({ name: "Ana", game: "sokoban", level, lurd });
+    expect(await submit(FIRST_LEVEL, "ulD")).toMatchObject({ ok: true, entry: { primary: 3, secondary: 1 } });
+    expect(await submit(FIRST_LEVEL, "ul")).toEqual({ ok: false, error: { code: "not-solved" } });
+    expect(await submit(FIRST_LEVEL, "uR")).toEqual({ ok: false, error: { code: "bad-step", step: 2 } });
+    expect(await submit("otro-nivel", "R")).toEqual({ ok: false, error: { code: "not-bundled" } });
+  });
+
+  it("Sudoku: completo, sin conflictos y en un tiempo posible", async () => {
+    const empty = STARTING_BOARD.flat().filter((n) => n === 0).length;
+    const solved = toLine(SOLUTION, "0");
+    expect(await verifySubmission(sudoku(solved, empty))).toMatchObject({
+      ok: true,
+      game: "sudoku",
+      entry: { primary: empty, detail: "9x9" },
+    });
+    expect(await verifySubmission(sudoku(solved, empty - 1))).toEqual({ ok: false, error: { code: "too-fast" } });
+    expect(await verifySubmission(sudoku(toLine(STARTING_BOARD, "0"), 600))).toEqual({
+      ok: false,
+      error: { code: "incomplete" },
+    });
+    expect(await verifySubmission({ ...sudoku(solved, 600), size: 4 })).toMatchObject({ ok: false });
+  });
+});
@@ -0,0 +1,147 @@
+// verificar.ts
+// Comprobación en el servidor de los resultados enviados a la clasificación, con la misma lógica de los juegos.
+// - 2048: se repite la partida desde la semilla (sin guardar los estados intermedios); la puntuación, la ficha
+//   más alta y el número de movimientos salen de la repetición y solo se aceptan partidas terminadas
+// - Sokoban: la solución LURD se aplica al nivel (solo niveles de las colecciones incluidas) y tiene que acabar
+//   con todas las cajas en objetivos; cuentan movimientos y empujes
+// - Sudoku: el tablero resuelto tiene que respetar las pistas del puzzle, estar completo y sin conflictos.
+//   El tiempo no se puede repetir: solo se rechazan tiempos imposibles (menos de un segundo por casilla vacía)
+// Nada de lo que manda el cliente se da por bueno sin comprobarlo: el cuerpo llega como JSON cualquiera.
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  board2048,
+  boardSokoban,
+  boardSudoku,
+  type Entry,
+  type LeaderboardError,
+  MAX_NAME,
+} from "../../componentes/clasificacion";
+import type { GameId } from "../../componentes/storage";
+import { decodeShared, toLine } from "../../sudoku/format";
+import { findConflicts } from "../../sudoku/sudoku";
+import { BUNDLED_PACKS, countPushes, isWin, type Level, levelKey, parsePack, replayLurd } from "../../sokoban/sokoban";
+import { finalState, hasMoves, maxTile, parseRecord } from "../../2048/game";
+
+export type Verified =
+  | { ok: true; game: GameId; board: string; entry: Omit<Entry, "at"> }
+  | { ok: false; error: LeaderboardError };
+
+// límites para no repetir partidas absurdamente largas
+const MAX_RECORD = 200000;
+const MAX_LURD = 100000;
+
+// niveles de las colecciones incluidas por clave; se leen una vez
+let bundledLevels: Promise<Map<string, Level>> | null = null;
+
+function loadBundledLevels() {
+  bundledLevels ??= Promise.all(
+    BUNDLED_PACKS.map((url) =>
+      readFile(path.join(process.cwd(), "public", url), "utf8").then((text) => parsePack(text, path.basename(url)))
+    )
+  ).then((results) => {
+    const levels = new Map<string, Level>();
+    for (const r of results) if (r.ok) for (const level of r.pack.levels) levels.set(levelKey(level.board), level);
+    return levels;
+  });
+  return bundledLevels;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+// sin espacios de sobra ni caracteres de control
+function cleanName(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const name = value.replace(/[\u0000-\u001f\u007f]/g, "").trim().replace(/\s+/g, " ");
+  return name.length > 0 && name.length <= MAX_NAME ? name : null;
+}
+
+function verify2048(name: string, record: unknown): Verified {
+  if (typeof record !== "string" || record.length > MAX_RECORD) return { ok: false, error: { code: "bad-record" } };
+  const parsed = parseRecord(record);
+  const replayed = parsed.ok ? finalState(parsed.record) : parsed;
+  if (!replayed.ok) return { ok: false, error: { code: "record", error: replayed.error } };
+  const last = replayed.game;
+  if (hasMoves(last.board)) return { ok: false, error: { code: "not-finished" } };
+  const size = last.board.length;
+  return {
+    ok: true,
+    game: "2048",
+    board: board2048(size),
+    entry: {
+      name,
+      primary: last.score,
+      secondary: last.moves.length,
+      detail: String(maxTile(last.board)),
+    },
+  };
+}
+
+async function verifySokoban(name: string, key: unknown, lurd: unknown): Promise<Verified> {
+  if (typeof key !== "string" || typeof lurd !== "string" || lurd.length > MAX_LURD)
+    return { ok: false, error: { code: "bad-solution" } };
+  const level = (await loadBundledLevels()).get(key);
+  if (!level) return { ok: false, error: { code: "not-bundled" } };
+  const replay = replayLurd(level.board, lurd);
+  if (replay.error !== null) return { ok: false, error: { code: "bad-step", step: replay.error + 1 } };
+  if (!isWin(replay.board)) return { ok: false, error: { code: "not-solved" } };
+  return {
+    ok: true,
+    game: "sokoban",
+    board: boardSokoban(key),
+    entry: {
+      name,
+      primary: replay.lurd.length,
+      secondary: countPushes(replay.lurd),
+      detail: level.title ?? "",
+    },
+  };
+}
+
+function verifySudoku(name: string, data: Record<string, unknown>): Verified {
+  const { puzzle, solution, size, mode, elapsed } = data;
+  if (
+    typeof puzzle !== "string" ||
+    typeof solution !== "string" ||
+    typeof size !== "number" ||
+    (mode !== "classic" && mode !== "diagonal") ||
+    typeof elapsed !== "number" ||
+    !Number.isInteger(elapsed)
+  )
+    return { ok: false, error: { code: "bad-sudoku" } };
+  const shared = decodeShared({ puzzle, progress: solution, size: String(size), mode });
+  if (shared === null) return { ok: false, error: { code: "bad-sudoku" } };
+  if ("error" in shared) return { ok: false, error: { code: "sudoku", error: shared.error } };
+  const { rules } = shared;
+  // decodeShared usa 9x9 si el tamaño no existe; el enviado tiene que coincidir
+  if (rules.size !== size) return { ok: false, error: { code: "bad-size", size } };
+  if (shared.board.some((row) => row.includes(0))) return { ok: false, error: { code: "incomplete" } };
+  if (findConflicts(shared.board, rules).size > 0) return { ok: false, error: { code: "repeated" } };
+  const empty = shared.puzzle.flat().filter((n) => n === 0).length;
+  if (elapsed < empty) return { ok: false, error: { code: "too-fast" } };
+  return {
+    ok: true,
+    game: "sudoku",
+    board: boardSudoku(toLine(shared.puzzle, "0"), size, mode),
+    entry: { name, primary: elapsed, secondary: 0, detail: `${size}x${size}` },
+  };
+}
+
+export async function verifySubmission(body: unknown): Promise<Verified> {
+  if (!isObject(body)) return { ok: false, error: { code: "bad-body" } };
+  const name = cleanName(body.name);
+  if (!name) return { ok: false, error: { code: "bad-name" } };
+  switch (body.game) {
+    case "2048":
+      return verify2048(name, body.record);
+    case "sokoban":
+      return verifySokoban(name, body.level, body.lurd);
+    case "sudoku":
+      return verifySudoku(name, body);
+    default:
+      return { ok: false, error: { code: "unknown-game" } };
+  }
+}
@@ -0,0 +1,18 @@
+import { afterEach, beforeEach, vi } from "vitest";
+
+// localStorage en memoria para las pruebas de lo que se guarda (storage.ts solo lo usa si hay window).
+// Cada prueba empieza con el almacén vacío.
+export function withMemoryStorage() {
+  const items = new Map<string, string>();
+  beforeEach(() => {
+    items.clear();
+    vi.stubGlobal("window", {});
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, String(value)),
+      removeItem: (key: string) => void items.delete(key),
+    });
+  });
+  afterEach(() => vi.unstubAllGlobals());
+  return items;
+}
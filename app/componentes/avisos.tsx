@@ -0,0 +1,120 @@
+"use client";
+
+import { createContext, useContext, useRef, useState } from "react";
+import { useI18n } from "./idioma-cliente";
+
+// Avisos de la aplicación; el layout raíz pone el proveedor alrededor de todas las páginas.
+// - notify: mensaje breve en una esquina (éxito, advertencia o error) que se cierra solo
+// - confirm: diálogo modal para las acciones que tiran la partida; la promesa resuelve true si se acepta
+// Sustituyen a alert() y confirm() del navegador, que bloquean la página y no siguen el idioma ni el estilo.
+
+export type NoticeLevel = "success" | "warning" | "error";
+
+type Notice = { id: number; message: string; level: NoticeLevel };
+
+type Confirmation = {
+  message: string;
+  confirmLabel: string;
+  resolve: (ok: boolean) => void;
+  returnFocus: HTMLElement | null; // elemento con el foco antes de abrir el diálogo
+};
+
+type Notices = {
+  notify: (message: string, level?: NoticeLevel) => void;
+  confirm: (message: string, confirmLabel?: string) => Promise<boolean>;
+};
+
+// milisegundos que se ve cada aviso
+const NOTICE_DURATION = 5000;
+
+// el color no es la única pista: cada nivel lleva su símbolo
+const LEVEL_STYLES: Record<NoticeLevel, { icon: string; className: string }> = {
+  success: { icon: "✓", className: "border-green-600 bg-green-50" },
+  warning: { icon: "⚠", className: "border-yellow-600 bg-yellow-50" },
+  error: { icon: "✕", className: "border-red-600 bg-red-50" },
+};
+
+// fuera del proveedor (no debería pasar) los avisos se pierden y las confirmaciones se aceptan
+const NoticesContext = createContext<Notices>({ notify: () => {}, confirm: () => Promise.resolve(true) });
+
+export function NoticesProvider({ children }: { children: React.ReactNode }) {
+  const { t } = useI18n();
+  const [notices, setNotices] = useState<Notice[]>([]);
+  const [confirmation, setConfirmation] = useState<Confirmation | null>(null);
+  const nextId = useRef(1);
+
+  function dismiss(id: number) {
+    setNotices((list) => list.filter((n) => n.id !== id));
+  }
+
+  function notify(message: string, level: NoticeLevel = "success") {
+    const id = nextId.current++;
+    setNotices((list) => [...list, { id, message, level }]);
+    setTimeout(() => dismiss(id), NOTICE_DURATION);
+  }
+
+  function confirm(message: string, confirmLabel = t.notices.accept) {
+    // si ya había un diálogo abierto se da por cancelado
+    confirmation?.resolve(false);
+    const returnFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    return new Promise<boolean>((resolve) => setConfirmation({ message, confirmLabel, resolve, returnFocus }));
+  }
+
+  function answer(ok: boolean) {
+    if (!confirmation) return;
+    confirmation.resolve(ok);
+    confirmation.returnFocus?.focus();
+    setConfirmation(null);
+  }
+
+  return (
+    <NoticesContext value={{ notify, confirm }}>
+      {children}
+
+      <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]">
+        {notices.map((n) => (
+          <div
+            key={n.id}
+            role={n.level === "error" ? "alert" : "status"}
+            className={`flex items-start gap-2 p-3 border-l-4 rounded shadow text-sm text-gray-900 ${LEVEL_STYLES[n.level].className}`}
+          >
+            <span aria-hidden className="font-bold">
+              {LEVEL_STYLES[n.level].icon}
+            </span>
+            <span className="flex-1 whitespace-pre-line">{n.message}</span>
+            <button onClick={() => dismiss(n.id)} aria-label={t.notices.close} className="px-1">
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {confirmation && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div
+            role="alertdialog"
+            aria-modal
+            aria-labelledby="aviso-confirmacion"
+            onKeyDown={(e) => e.key === "Escape" && answer(false)}
+            className="w-full max-w-sm p-4 rounded bg-white text-gray-900 shadow-lg"
+          >
+            <p id="aviso-confirmacion">{confirmation.message}</p>
+            <div className="flex justify-end gap-2 mt-4">
+              {/* el foco empieza en Cancelar: Intro no debe tirar la partida sin querer */}
+              <button autoFocus onClick={() => answer(false)} className="px-3 py-2 border rounded">
+                {t.notices.cancel}
+              </button>
+              <button onClick={() => answer(true)} className="px-3 py-2 border rounded bg-red-50 border-red-600">
+                {confirmation.confirmLabel}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </NoticesContext>
+  );
+}
+
+export function useNotices() {
+  return useContext(NoticesContext);
+}
@@ -0,0 +1,106 @@
+// clasificacion.ts
+// Clasificación compartida entre jugadores; el servidor está en app/api/clasificacion.
+// - Cada tabla es independiente: 2048 por tamaño de tablero, Sokoban por nivel, Sudoku por puzzle
+// - El cliente no envía la puntuación sino lo necesario para repetir la partida (semilla y movimientos,
+//   solución LURD, tablero resuelto); el servidor la repite con la lógica de los juegos y calcula él el resultado
+// - Una entrada por nombre y tabla: se queda la mejor
+// Aquí están los tipos y las llamadas que comparten las páginas y el servidor.
+
+import { type RecordError, recordErrorMessage } from "../2048/game";
+import { type SharedError, sharedErrorMessage } from "../sudoku/format";
+import type { Messages } from "./idioma";
+import type { GameId } from "./storage";
+
+// lo que envía cada juego al terminar (más el nombre del jugador)
+// record: texto de recordToText; level: levelKey del nivel; puzzle y solution: tableros en una línea (toLine con 0)
+export type GameResult =
+  | { game: "2048"; record: string }
+  | { game: "sokoban"; level: string; lurd: string }
+  | { game: "sudoku"; puzzle: string; solution: string; size: number; mode: "classic" | "diagonal"; elapsed: number };
+
+export type Submission = GameResult & { name: string };
+
+// primary y secondary ordenan la tabla: puntos y movimientos en 2048 (más puntos mejor),
+// movimientos y empujes en Sokoban, segundos en Sudoku (menos es mejor)
+export type Entry = { name: string; primary: number; secondary: number; detail: string; at: number };
+
+// por qué el servidor rechaza una petición (los textos están en los catálogos, leaderboardErrorMessage)
+export type LeaderboardError =
+  | { code: "bad-board" }
+  | { code: "bad-body" }
+  | { code: "bad-name" }
+  | { code: "unknown-game" }
+  | { code: "bad-record" }
+  | { code: "record"; error: RecordError }
+  | { code: "not-finished" }
+  | { code: "bad-solution" }
+  | { code: "not-bundled" }
+  | { code: "bad-step"; step: number }
+  | { code: "not-solved" }
+  | { code: "bad-sudoku" }
+  | { code: "sudoku"; error: SharedError }
+  | { code: "bad-size"; size: number }
+  | { code: "incomplete" }
+  | { code: "repeated" }
+  | { code: "too-fast" };
+
+export type SubmitReply = { ok: true; entry: Entry; rank: number | null } | { ok: false; error: LeaderboardError };
+
+export const TOP_DEFAULT = 10;
+export const MAX_NAME = 20;
+
+export function board2048(size: number) {
+  return `2048:${size}`;
+}
+
+export function boardSokoban(levelKey: string) {
+  return `sokoban:${levelKey}`;
+}
+
+export function boardSudoku(puzzle: string, size: number, mode: "classic" | "diagonal") {
+  return `sudoku:${size}:${mode}:${puzzle}`;
+}
+
+export function gameOfBoard(board: string): GameId | null {
+  const game = board.slice(0, board.indexOf(":"));
+  return game === "2048" || game === "sokoban" || game === "sudoku" ? game : null;
+}
+
+// negativo si `a` va antes que `b`; a igualdad, la más antigua
+export function compareEntries(game: GameId, a: Entry, b: Entry) {
+  const primary = game === "2048" ? b.primary - a.primary : a.primary - b.primary;
+  return primary || a.secondary - b.secondary || a.at - b.at;
+}
+
+export function leaderboardErrorMessage(error: LeaderboardError, t: Messages): string {
+  const messages = t.leaderboard.errors;
+  switch (error.code) {
+    case "record":
+      return recordErrorMessage(error.error, t);
+    case "sudoku":
+      return sharedErrorMessage(error.error, t);
+    case "bad-name":
+      return messages["bad-name"](MAX_NAME);
+    case "bad-step":
+      return messages["bad-step"](error.step);
+    case "bad-size":
+      return messages["bad-size"](error.size);
+    default:
+      return messages[error.code];
+  }
+}
+
+export function fetchTop(board: string, top = TOP_DEFAULT): Promise<Entry[]> {
+  const params = new URLSearchParams({ tabla: board, top: String(top) });
+  return fetch(`/api/clasificacion?${params}`)
+    .then((res) => (res.ok ? res.json() : Promise.reject(new Error(res.statusText))))
+    .then((data: { entries: Entry[] }) => data.entries);
+}
+
+export function submitResult(submission: Submission): Promise<SubmitReply> {
+  return fetch("/api/clasificacion", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(submission),
+  }).then((res) => res.json() as Promise<SubmitReply>);
+}
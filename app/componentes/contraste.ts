@@ -0,0 +1,9 @@
+// contraste.ts
+// Modo de alto contraste: colores puros y marcas de forma (contorno discontinuo, "!") en los conflictos
+// del Sudoku y en las cajas bloqueadas o señaladas del Sokoban, para no depender solo del rojo/verde.
+// Se guarda en una cookie y el layout raíz lo aplica con data-contraste en <html>; los estilos usan
+// la variante contraste: de globals.css.
+
+export const CONTRAST_COOKIE = "contraste";
+
+export const HIGH_CONTRAST = "alto";
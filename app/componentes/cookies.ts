@@ -0,0 +1,8 @@
+// Preferencias del jugador que también necesita el servidor (idioma, contraste): se guardan en cookies
+// de un año para toda la web. Solo se puede usar en el navegador.
+
+const MAX_AGE = 60 * 60 * 24 * 365;
+
+export function savePreference(name: string, value: string) {
+  document.cookie = `${name}=${value}; path=/; max-age=${MAX_AGE}; samesite=lax`;
+}
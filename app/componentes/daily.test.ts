@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { withMemoryStorage } from "./almacen-prueba";
+import { dailyResults, dailySeed, dailyStreak, dailySudokuDifficulty, dayKey, formatDay, recordDaily } from "./daily";
+
+withMemoryStorage();
+
+const done = (...days: string[]) => Object.fromEntries(days.map((d) => [d, { result: "ok", at: 0 }]));
+
+describe("fechas", () => {
+  it("dayKey usa la fecha local con ceros a la izquierda", () => {
+    expect(dayKey(new Date(2026, 0, 5, 23, 59))).toBe("2026-01-05");
+    expect(formatDay("2026-01-05")).toBe("05/01/2026");
+  });
+
+  it("la semilla es la misma para el mismo día y distinta entre juegos y días", () => {
+    expect(dailySeed("2048", "2026-10-19")).toBe(dailySeed("2048", "2026-10-19"));
+    expect(dailySeed("2048", "2026-10-19")).not.toBe(dailySeed("sudoku", "2026-10-19"));
+    expect(dailySeed("2048", "2026-10-19")).not.toBe(dailySeed("2048", "2026-10-20"));
+  });
+
+  it("el Sudoku diario sube de dificultad a lo largo de la semana", () => {
+    expect(dailySudokuDifficulty("2026-10-18")).toBe("easy"); // domingo
+    expect(dailySudokuDifficulty("2026-10-21")).toBe("medium"); // miércoles
+    expect(dailySudokuDifficulty("2026-10-23")).toBe("hard"); // viernes
+    expect(dailySudokuDifficulty("2026-10-24")).toBe("expert"); // sábado
+  });
+});
+
+describe("dailyStreak", () => {
+  it("cuenta los días seguidos hasta hoy", () => {
+    expect(dailyStreak(done("2026-10-17", "2026-10-18", "2026-10-19"), "2026-10-19")).toBe(3);
+  });
+
+  it("si hoy aún no se ha hecho cuenta hasta ayer", () => {
+    expect(dailyStreak(done("2026-10-17", "2026-10-18"), "2026-10-19")).toBe(2);
+  });
+
+  it("un día sin reto corta la racha, también a través de un cambio de mes", () => {
+    expect(dailyStreak(done("2026-09-29", "2026-09-30", "2026-10-01"), "2026-10-01")).toBe(3);
+    expect(dailyStreak(done("2026-10-15", "2026-10-17"), "2026-10-17")).toBe(1);
+    expect(dailyStreak({}, "2026-10-17")).toBe(0);
+  });
+});
+
+describe("recordDaily", () => {
+  it("se queda con el primer resultado del día", () => {
+    expect(recordDaily("2048", "2026-10-19", "1200 puntos").result).toBe("1200 puntos");
+    expect(recordDaily("2048", "2026-10-19", "5000 puntos").result).toBe("1200 puntos");
+    expect(recordDaily("2048", "2026-10-20", "5000 puntos").result).toBe("5000 puntos");
+    expect(Object.keys(dailyResults("2048"))).toEqual(["2026-10-19", "2026-10-20"]);
+    expect(dailyResults("sudoku")).toEqual({});
+  });
+});
@@ -0,0 +1,79 @@
+// daily.ts
+// Reto diario: el mismo puzzle para todos los jugadores el mismo día (fecha local).
+// - La semilla de cada juego sale de la fecha y del juego; cada página la usa con su propia lógica
+//   (generador de Sudoku, nivel de las colecciones incluidas, semilla del 2048)
+// - Se guarda el primer resultado de cada día por juego (sección "daily" de storage.ts); los intentos
+//   posteriores del mismo día no lo cambian
+// - Racha: días seguidos con el reto completado, contando hasta hoy (o hasta ayer si hoy aún no se ha hecho)
+
+import type { Difficulty } from "../sudoku/sudoku";
+import type { Messages } from "./idioma";
+import { hashSeed } from "./random";
+import { type GameId, loadSaved, saveGame } from "./storage";
+
+// result: texto corto para el resumen ("resuelto en 5:32", "12345 puntos (ficha 1024)"…)
+export type DailyResult = { result: string; at: number };
+
+const GAME_NAMES: Record<GameId, string> = { sudoku: "Sudoku", sokoban: "Sokoban", "2048": "2048" };
+
+// dificultad del Sudoku diario según el día de la semana (domingo = 0): empieza suave y sube hasta el sábado
+const SUDOKU_BY_WEEKDAY: Difficulty[] = ["easy", "easy", "medium", "medium", "hard", "hard", "expert"];
+
+// "2026-10-19" en la zona horaria del jugador
+export function dayKey(date = new Date()) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function parseDay(day: string) {
+  const [y, m, d] = day.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+function previousDay(day: string) {
+  const date = parseDay(day);
+  date.setDate(date.getDate() - 1);
+  return dayKey(date);
+}
+
+// "19/10/2026"
+export function formatDay(day: string) {
+  return day.split("-").reverse().join("/");
+}
+
+export function dailySeed(game: GameId, day: string) {
+  return hashSeed(`reto-diario:${game}:${day}`);
+}
+
+export function dailySudokuDifficulty(day: string): Difficulty {
+  return SUDOKU_BY_WEEKDAY[parseDay(day).getDay()];
+}
+
+export function dailyResults(game: GameId): Record<string, DailyResult> {
+  return loadSaved().daily[game];
+}
+
+// guarda el resultado si es el primero del día; devuelve el que queda guardado
+export function recordDaily(game: GameId, day: string, result: string): DailyResult {
+  const { daily } = loadSaved();
+  const existing = daily[game][day];
+  if (existing) return existing;
+  const entry = { result, at: Date.now() };
+  saveGame("daily", { [game]: { ...daily[game], [day]: entry } });
+  return entry;
+}
+
+export function dailyStreak(results: Record<string, DailyResult>, today = dayKey()) {
+  let day = results[today] ? today : previousDay(today);
+  let streak = 0;
+  while (results[day]) {
+    streak++;
+    day = previousDay(day);
+  }
+  return streak;
+}
+
+// texto para copiar y compartir, en el idioma de la interfaz (el resultado queda como se guardó)
+export function dailySummary(t: Messages, game: GameId, day: string, result: DailyResult, streak: number) {
+  return t.daily.summary(formatDay(day), GAME_NAMES[game], result.result, streak);
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useSyncExternalStore } from "react";
+import type { Messages } from "./idioma";
+import { useI18n } from "./idioma-cliente";
+import { GAMES } from "./juegos";
+import { clearCurrent, type GameId, loadSaved, type Saved, STORAGE_KEY, subscribeSaved } from "./storage";
+import { formatTime } from "./timer";
+
+// Tarjetas de los juegos del registro en el inicio, con su descripción.
+// Si hay una partida a medias la tarjeta lo marca y deja continuarla (la página la restaura sola)
+// o empezar una nueva (se borra la guardada antes de entrar).
+// Se lee con useSyncExternalStore para que el HTML del servidor (sin partidas) no choque al hidratar.
+
+// resumen de la partida a medias de cada juego; null si no hay
+const PROGRESS: Record<GameId, (saved: Saved, t: Messages) => string | null> = {
+  sudoku: ({ sudoku: { current } }, t) => {
+    if (!current) return null;
+    const cells = current.board.flat();
+    return t.continue.sudoku(cells.filter((n) => n !== 0).length, cells.length, formatTime(current.elapsed));
+  },
+  sokoban: ({ sokoban: { current } }, t) =>
+    current &&
+    t.continue.sokoban(current.level.pack, current.level.index + 1, current.moves.length, formatTime(current.elapsed)),
+  "2048": ({ "2048": { current } }, t) => current && t.continue.g2048(current.game.score, formatTime(current.elapsed)),
+};
+
+export default function GameGallery() {
+  const router = useRouter();
+  const { t } = useI18n();
+  // el texto guardado es estable entre renders; las claves antiguas no tienen partidas a medias
+  const raw = useSyncExternalStore(subscribeSaved, () => localStorage.getItem(STORAGE_KEY), () => null);
+  const saved = raw === null ? null : loadSaved();
+
+  function startNew(id: GameId, href: string) {
+    clearCurrent(id);
+    router.push(href);
+  }
+
+  return (
+    <ul className="mt-8 grid gap-4 sm:grid-cols-3 w-full max-w-3xl text-left">
+      {GAMES.map((g) => {
+        const { title, description } = t.games[g.text];
+        const progress = saved && PROGRESS[g.id](saved, t);
+        return (
+          <li key={g.id} className="relative p-4 border rounded shadow-sm flex flex-col">
+            {progress && (
+              <span className="absolute top-2 right-2 px-2 py-0.5 rounded bg-yellow-100 text-xs font-medium">
+                {t.continue.badge}
+              </span>
+            )}
+            <Link href={g.href} className="text-xl font-semibold hover:text-blue-600">
+              <span aria-hidden className="mr-2">
+                {g.icon}
+              </span>
+              {title}
+            </Link>
+            <p className="mt-2 text-sm text-gray-600 flex-1">{description}</p>
+            {progress && <p className="mt-2 text-sm">{progress}</p>}
+            <div className="flex gap-2 mt-3">
+              <Link href={g.href} className="px-3 py-2 border rounded">
+                {progress ? t.continue.resume : t.home.play}
+              </Link>
+              {progress && (
+                <button onClick={() => startNew(g.id, g.href)} className="px-3 py-2 border rounded">
+                  {t.continue.startNew}
+                </button>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,12 @@
+// hidratado.ts
+// Las partidas guardadas solo existen en el navegador. Las páginas de los juegos montan el juego cuando la página
+// ya está hidratada, así su primer render puede leer lo guardado sin que choque con el HTML del servidor.
+
+import { useSyncExternalStore } from "react";
+
+// no hay nada a lo que suscribirse: el valor solo cambia de false (servidor e hidratación) a true
+const subscribe = () => () => {};
+
+export function useHydrated() {
+  return useSyncExternalStore(subscribe, () => true, () => false);
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { createContext, useContext } from "react";
+import { savePreference } from "./cookies";
+import { DEFAULT_LOCALE, type Locale, LOCALE_COOKIE, MESSAGES } from "./idioma";
+
+// Idioma en los componentes de cliente: el layout raíz lo lee de la cookie y lo pasa al proveedor.
+// Cambiarlo guarda la cookie y refresca la ruta para que el servidor vuelva a pintar lang, títulos e inicio.
+
+const LocaleContext = createContext<Locale>(DEFAULT_LOCALE);
+
+export function I18nProvider({ locale, children }: { locale: Locale; children: React.ReactNode }) {
+  return <LocaleContext value={locale}>{children}</LocaleContext>;
+}
+
+export function useI18n() {
+  const locale = useContext(LocaleContext);
+  const router = useRouter();
+
+  function setLocale(next: Locale) {
+    savePreference(LOCALE_COOKIE, next);
+    router.refresh();
+  }
+
+  return { locale, t: MESSAGES[locale], setLocale };
+}
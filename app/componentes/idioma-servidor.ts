@@ -0,0 +1,29 @@
+import type { Metadata } from "next";
+import { cookies } from "next/headers";
+import { DEFAULT_LOCALE, isLocale, LOCALE_COOKIE, type Locale, type Messages, MESSAGES } from "./idioma";
+import { gameById } from "./juegos";
+import type { GameId } from "./storage";
+
+// Idioma de la petición para los componentes de servidor (layouts, inicio y metadatos).
+
+export async function getLocale(): Promise<Locale> {
+  const value = (await cookies()).get(LOCALE_COOKIE)?.value;
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+export async function getMessages(): Promise<Messages> {
+  return MESSAGES[await getLocale()];
+}
+
+// título de una página (el layout raíz le añade el nombre del sitio)
+export async function pageMetadata(page: keyof Messages["meta"]["pages"]): Promise<Metadata> {
+  const t = await getMessages();
+  return { title: t.meta.pages[page] };
+}
+
+// título y descripción de la página de un juego, sacados del registro
+export async function gameMetadata(id: GameId): Promise<Metadata> {
+  const t = await getMessages();
+  const { title, description } = t.games[gameById(id).text];
+  return { title, description };
+}
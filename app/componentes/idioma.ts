@@ -0,0 +1,29 @@
+// idioma.ts
+// Idiomas de la interfaz y sus catálogos de textos (componentes/mensajes).
+// - El idioma elegido se guarda en una cookie para que el servidor ya pinte la página en él
+//   (lang del <html> y títulos, con idioma-servidor.ts); los componentes de cliente lo leen con useI18n()
+// - Sin cookie (o con un valor desconocido) se usa el español
+// - Los motores y el servidor de la clasificación devuelven códigos con sus datos, no textos; las funciones
+//   que los escriben con un catálogo están junto a cada motor (stepExplanation, recordErrorMessage...)
+
+import en from "./mensajes/en";
+import es, { type Messages } from "./mensajes/es";
+
+export type { Messages };
+
+export type Locale = "es" | "en";
+
+export const LOCALES: Locale[] = ["es", "en"];
+
+export const DEFAULT_LOCALE: Locale = "es";
+
+export const LOCALE_COOKIE = "idioma";
+
+// nombre de cada idioma en ese mismo idioma (para el selector)
+export const LOCALE_NAMES: Record<Locale, string> = { es: "Español", en: "English" };
+
+export const MESSAGES: Record<Locale, Messages> = { es, en };
+
+export function isLocale(value: string | undefined): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
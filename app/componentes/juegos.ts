@@ -0,0 +1,29 @@
+import type { Messages } from "./idioma";
+import type { GameId } from "./storage";
+
+// Registro de juegos: de aquí salen el menú, las tarjetas del inicio, los metadatos de cada página
+// y las redirecciones desde las rutas antiguas (next.config.ts).
+// Añadir un juego: su carpeta en app/ con la ruta de href, una entrada aquí y su título y descripción
+// en games de los catálogos de textos.
+
+export type GameEntry = {
+  id: GameId; // clave de la partida guardada, las estadísticas y la clasificación
+  href: string; // ruta de la página (la carpeta de app/)
+  legacyHref?: string; // ruta anterior, redirige a href
+  icon: string;
+  text: keyof Messages["games"]; // título y descripción en los catálogos
+};
+
+// por id, así cada GameId tiene su entrada
+const GAMES_BY_ID: Record<GameId, GameEntry> = {
+  sudoku: { id: "sudoku", href: "/sudoku", legacyHref: "/primeraoriginal", icon: "🔢", text: "sudoku" },
+  sokoban: { id: "sokoban", href: "/sokoban", legacyHref: "/segundaoriginal", icon: "📦", text: "sokoban" },
+  "2048": { id: "2048", href: "/2048", legacyHref: "/terceraoriginal", icon: "🧮", text: "g2048" },
+};
+
+// orden del menú y de las tarjetas del inicio
+export const GAMES: GameEntry[] = [GAMES_BY_ID.sudoku, GAMES_BY_ID.sokoban, GAMES_BY_ID["2048"]];
+
+export function gameById(id: GameId): GameEntry {
+  return GAMES_BY_ID[id];
+}
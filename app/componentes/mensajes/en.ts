@@ -0,0 +1,388 @@
+import type { Messages } from "./es";
+
+// Textos de la interfaz en inglés.
+
+const en: Messages = {
+  meta: {
+    site: "Games",
+    description: "Sudoku, Sokoban and 2048 to play in the browser.",
+    pages: { stats: "Statistics" },
+  },
+  games: {
+    sudoku: {
+      title: "Sudoku",
+      description: "Fill the grid without repeating numbers. Classic, X-Sudoku and Killer, with step-by-step hints.",
+    },
+    sokoban: {
+      title: "Sokoban",
+      description: "Push every box onto its target. Level packs, an editor and a solver.",
+    },
+    g2048: {
+      title: "2048",
+      description: "Slide and merge equal tiles until you reach 2048. Seeded games and an AI that suggests moves.",
+    },
+  },
+  nav: {
+    stats: "Statistics",
+    language: "Language",
+    highContrast: "High contrast",
+  },
+  home: {
+    welcome: "Welcome to the games",
+    pick: "Pick a game to start 🎮",
+    play: "Play",
+  },
+  continue: {
+    badge: "In progress",
+    resume: "Continue",
+    startNew: "Start a new one",
+    sudoku: (filled, total, time) => `${filled}/${total} cells · ${time}`,
+    sokoban: (pack, level, moves, time) => `${pack}, level ${level} · ${moves} moves · ${time}`,
+    g2048: (score, time) => `${score} points · ${time}`,
+  },
+  daily: {
+    button: "Daily challenge",
+    title: (day) => `Daily challenge for ${day}`,
+    completed: (result) => `Completed: ${result}`,
+    streak: (days) => `Streak: ${days} ${days === 1 ? "day" : "days"}`,
+    copy: "Copy summary",
+    copied: "Copied.",
+    intro: "The same puzzle for everyone today; only the first result counts.",
+    summary: (day, game, result, streak) =>
+      `Daily challenge ${day} — ${game}: ${result}${streak > 1 ? ` · ${streak}-day streak` : ""}`,
+  },
+  notices: {
+    accept: "OK",
+    cancel: "Cancel",
+    close: "Close",
+  },
+  leaderboard: {
+    title: "Leaderboard",
+    loading: "Loading…",
+    empty: "No results yet.",
+    loadError: "The leaderboard could not be loaded.",
+    sent: (result, rank) =>
+      rank === null ? `Sent: ${result}, but it does not make the leaderboard.` : `Sent: ${result}. Your best rank: ${rank}.`,
+    sendError: "The result could not be sent.",
+    name: "Your name",
+    nameLabel: "Name for the leaderboard",
+    sending: "Sending…",
+    send: "Send result",
+    errors: {
+      "bad-board": "Invalid leaderboard.",
+      "bad-body": "Invalid submission.",
+      "bad-name": (max) => `The name must be between 1 and ${max} characters long.`,
+      "unknown-game": "Unknown game.",
+      "bad-record": "Invalid game record.",
+      "not-finished": "The game is not over: there are still moves left.",
+      "bad-solution": "Invalid solution.",
+      "not-bundled": "The leaderboard only accepts levels from the bundled packs.",
+      "bad-step": (step) => `Step ${step} of the solution is not possible.`,
+      "not-solved": "The solution does not leave every box on a target.",
+      "bad-sudoku": "Invalid Sudoku.",
+      "bad-size": (size) => `Invalid size: ${size}.`,
+      incomplete: "The Sudoku is not complete.",
+      repeated: "The solution has repeated numbers.",
+      "too-fast": "Impossible time for this puzzle.",
+    },
+  },
+  achievements: {
+    unlocked: (titles) => `${titles.length === 1 ? "Achievement unlocked" : "Achievements unlocked"}: ${titles.join(", ")}`,
+    list: {
+      "sudoku-first": { title: "First Sudoku", description: "Solve a Sudoku." },
+      "sudoku-expert": { title: "Expert", description: "Solve an expert Sudoku." },
+      "sudoku-fast": { title: "Against the clock", description: "Solve a 9x9 Sudoku in under 5 minutes." },
+      "sudoku-variants": { title: "Variety", description: "Solve an X-Sudoku and a Killer." },
+      "sokoban-first": { title: "Warehouse hand", description: "Complete a Sokoban level." },
+      "sokoban-ten": { title: "Warehouse keeper", description: "Complete 10 different Sokoban levels." },
+      "2048-first": { title: "First game", description: "Finish a game of 2048." },
+      "2048-2048": { title: "2048", description: "Reach the 2048 tile." },
+      "2048-4096": { title: "Beyond", description: "Reach the 4096 tile." },
+      "2048-score": { title: "Twenty thousand", description: "Finish a game of 2048 with 20000 points or more." },
+      "all-games": { title: "A bit of everything", description: "Finish a game of each kind." },
+    },
+  },
+  stats: {
+    title: "Statistics",
+    solved: "Solved",
+    difficulty: "Difficulty",
+    bestTime: "Best time",
+    levelsCompleted: "Levels completed",
+    level: "Level",
+    times: "Times",
+    minMoves: "Fewest moves",
+    minPushes: "Fewest pushes",
+    games: "Games",
+    highestTile: "Highest tile",
+    bestScore: "Best score",
+    average: "Average",
+    score: "Score",
+    achievements: "Achievements",
+  },
+  sudoku: {
+    board: "Sudoku board",
+    cell: (row, col, state) => `Row ${row}, column ${col}: ${state}`,
+    clue: (value) => `clue ${value}`,
+    empty: "empty",
+    notesList: (values) => `notes ${values}`,
+    conflict: "conflict",
+    hintTarget: "can be deduced",
+    hintCell: "used by the hint",
+    cage: (sum) => `cage adding up to ${sum}`,
+    size: "Size",
+    variant: "Variant",
+    difficulty: "Difficulty",
+    difficulties: { easy: "Easy", medium: "Medium", hard: "Hard", expert: "Expert" },
+    variants: { classic: "Classic", diagonal: "X-Sudoku", killer: "Killer" },
+    techniques: {
+      "naked-single": "Naked single",
+      "hidden-single": "Hidden single",
+      "naked-pair": "Naked pair",
+      "hidden-pair": "Hidden pair",
+      pointing: "Pointing pair",
+      "box-line": "Box-line reduction",
+      "naked-triple": "Naked triple",
+      "hidden-triple": "Hidden triple",
+      "x-wing": "X-Wing",
+    },
+    cellName: (row, col) => `(r${row}, c${col})`,
+    units: {
+      row: (n) => `row ${n}`,
+      col: (n) => `column ${n}`,
+      box: (n) => `box ${n}`,
+      diagonal: (n) => (n === 1 ? "the main diagonal" : "the anti-diagonal"),
+      cage: (n, sum) => `cage ${n} (sum ${sum})`,
+    },
+    reasons: {
+      nakedSingle: (cell, value) => `Cell ${cell} only allows ${value}.`,
+      hiddenSingle: (unit, value, cell) => `In ${unit}, ${value} only fits in ${cell}.`,
+      nakedSubset: (cells, values, unit) =>
+        `Cells ${cells} can only hold ${values}; those numbers are removed from the rest of ${unit}.`,
+      hiddenSubset: (unit, values, cells) =>
+        `In ${unit}, the numbers ${values} only fit in ${cells}; those cells cannot hold any other candidate.`,
+      intersection: (from, value, to) =>
+        `In ${from}, ${value} can only go inside ${to}, so it is removed from the rest of ${to}.`,
+      xWing: (rows, first, second, value) =>
+        `In ${rows ? "rows" : "columns"} ${first} and ${second}, ${value} only fits in the same two positions, forming a rectangle; it is removed from those lines in the rest of the board.`,
+    },
+    parseErrors: {
+      empty: "The text is empty.",
+      badChar: (char, allowed) => `Invalid character "${char}"; use ${allowed} and 0 or . for empty cells.`,
+      cellCount: (expected, found) => `Expected ${expected} cells but found ${found}.`,
+      repeated: (cells) => `There are repeated numbers in cells ${cells}.`,
+      sharedPuzzle: (error) => `Invalid puzzle in the link: ${error}`,
+      sharedProgress: (error) => `Invalid progress in the link: ${error}`,
+      sharedMismatch: "The progress in the link does not match the puzzle clues.",
+    },
+    generating: "Generating…",
+    newGame: "New game",
+    status: (difficulty, time) => `Difficulty: ${difficulty} · Time: ${time}`,
+    solverFailed: "The solver failed; please try again.",
+    killerImport: "Killer cages cannot be imported as text; choose another variant.",
+    checkingPuzzle: "Checking the puzzle…",
+    importUnsolvable: "The puzzle has no solution.",
+    imported: "Puzzle imported.",
+    importedMultiple: "Puzzle imported, but it has more than one solution.",
+    killerExport: "Note: Killer cages are not included in the text.",
+    killerShare: "Killer games cannot be shared by link.",
+    linkCopied: "Link copied to the clipboard.",
+    link: (url) => `Link: ${url}`,
+    boardFull: "The board is already full.",
+    hintConflicts: "There are conflicts on the board; fix them before asking for a hint.",
+    hintWrong: "A number on the board is wrong: the board no longer has a solution.",
+    hintStuck: "No known technique finds the next step; time to try values.",
+    dailyResult: (time, difficulty) => `solved in ${time} (${difficulty.toLowerCase()})`,
+    solvedTitle: "Sudoku solved!",
+    solvedDetail: (time) => `Completed with no conflicts in ${time}.`,
+    incompleteAlert: "No conflicts so far, but some cells are still empty.",
+    conflictsAlert: "There are conflicts. They are marked on the board.",
+    solveConflicts: "There are conflicts on the board; fix them before solving.",
+    solveNoSolution: "There is no solution from the current state: a number on the board is wrong. Use Undo or Reset.",
+    solveMultiple: "The puzzle has more than one solution; showing one of them.",
+    check: "Check",
+    hint: "Hint",
+    undo: "Undo",
+    reset: "Reset",
+    confirmReset: "Reset the board? The numbers and notes you entered will be cleared.",
+    confirmSolve: "Show the solution? The game will no longer count as solved.",
+    solving: "Solving…",
+    solve: "Solve",
+    cancel: "Cancel",
+    notes: (on) => `Notes: ${on ? "On" : "Off"}`,
+    fillNotes: "Fill in candidates",
+    autoClearNotes: "Clear notes when placing",
+    importExport: "Import / export",
+    ioPlaceholder:
+      "One line with every cell (0 or . for empty ones) or one row per line in SDK format; the chosen size and variant are used",
+    import: "Import",
+    exportLine: "Export line",
+    exportSdk: "Export SDK",
+    share: "Share link",
+    help: 'Grey cells are clues (not editable). Red ones show conflicts. With "Hint" the green cell is the one that can be deduced. Use the arrow keys to move between cells. In notes mode each number adds or removes a candidate. In X-Sudoku the shaded diagonals cannot repeat either; in Killer each dashed cage adds up to the number in its corner.',
+  },
+  sokoban: {
+    board: "Sokoban board",
+    cell: (row, col, state) => `Row ${row}, column ${col}: ${state}`,
+    cells: {
+      "#": "wall",
+      " ": "floor",
+      ".": "target",
+      $: "box",
+      "*": "box on target",
+      "@": "player",
+      "+": "player on target",
+    },
+    deadlocked: "stuck",
+    hintBox: "hint box",
+    hintTarget: "hint destination",
+    announceStep: (direction, moves) => `You walk ${direction} (${moves} moves).`,
+    announcePush: (direction, placed, boxes, moves) =>
+      `You push a box ${direction}: ${placed} of ${boxes} on targets (${moves} moves).`,
+    blocked: (direction) => `You cannot move ${direction}.`,
+    announceJump: (move, total) => `Back to move ${move} of ${total}.`,
+    movesAndPushes: (moves, pushes) => `${moves} moves, ${pushes} pushes`,
+    directions: { l: "left", u: "up", r: "right", d: "down" },
+    editorTest: "Editor test",
+    packsUnreadable: "The level collections could not be read.",
+    packsFailed: "The level collections could not be loaded.",
+    solverFailed: "The solver failed; please try again.",
+    unsolvable: "There is no solution from this position: undo some moves or restart the level.",
+    limit: (explored) => `No solution found after exploring ${explored} positions.`,
+    solution: (moves, pushes) => `Solution: ${moves} moves, ${pushes} pushes.`,
+    hintPush: (direction) => `Hint: push the marked box ${direction}.`,
+    dailyResult: (moves, pushes, time) => `${moves} moves, ${pushes} pushes in ${time}`,
+    deadlockPrevented: "That push would leave the level unsolvable; the assistant prevented it.",
+    nothingToReplay: "There are no moves to replay.",
+    invalidMove: (position, move) => `Invalid move at position ${position} ("${move}").`,
+    replayIncomplete: "Note: these moves do not complete the level.",
+    loaded: (levels, title) => `Loaded ${levels} levels from "${title}".`,
+    loadedWithWarnings: (levels, warnings) => `Loaded ${levels} levels; skipped: ${warnings}`,
+    levelNumber: (n) => `Level ${n}`,
+    fileUnreadable: (name) => `${name} could not be read.`,
+    problems: {
+      badChar: (char) => `Invalid character "${char}" in the level.`,
+      noPlayer: "There is no player.",
+      players: (count) => `There are ${count} players; there must be one.`,
+      noBoxes: "There are no boxes.",
+      mismatch: (boxes, goals) => `There are ${boxes} boxes and ${goals} targets; they must match.`,
+      open: "The level is not enclosed by walls.",
+      noPlayable: (warnings) => `No level is playable. ${warnings}`,
+      noLevels: "The file contains no levels.",
+    },
+    backToLevel: "Back to the level",
+    pickLevel: "Pick a level",
+    editor: "Editor",
+    uploadPack: "Load collection…",
+    loadingLevels: "Loading levels…",
+    pack: "Collection",
+    author: (name) => `Author: ${name}.`,
+    completed: "Completed",
+    moves: "Moves",
+    pushes: "Pushes",
+    time: "Time",
+    best: (moves, pushes) => `(best: ${moves} / ${pushes})`,
+    up: "Up",
+    left: "Left",
+    right: "Right",
+    down: "Down",
+    undo: "Undo",
+    redo: "Redo",
+    reset: "Reset",
+    backToEditor: "Back to the editor",
+    nextLevel: "Next level",
+    edit: "Edit",
+    hint: "Hint",
+    searching: "Searching…",
+    solve: "Solve",
+    cancel: "Cancel",
+    pause: "Pause",
+    resume: "Resume",
+    step: "Step",
+    stop: "Stop",
+    controls: "Controls: arrows / WASD, click to walk and drag a box to push it. Goal: put every box on a target.",
+    lurd: "Moves in LURD",
+    lurdPlaceholder: "Paste a solution (l/u/r/d; capitals for pushes)",
+    replay: "Replay",
+    myMoves: "My moves",
+    showBest: "Show best solution",
+    preventDeadlocks: "Prevent blocking pushes (and shade dead squares)",
+    won: "Level completed!",
+    lostTitle: "Level stuck",
+    lost: "The marked boxes can no longer reach a target. Use Undo or Reset.",
+    confirmReset: "Reset the level? Your moves will be lost.",
+  },
+  editor: {
+    tools: { wall: "Wall", floor: "Floor", goal: "Target", box: "Box", player: "Player" },
+    width: "Width",
+    height: "Height",
+    clear: "Clear",
+    minSize: (size) => `The level must be at least ${size}x${size}.`,
+    copied: "Level copied to the clipboard.",
+    searching: "Looking for a solution…",
+    undecided: "Could not decide whether it has a solution within the limit.",
+    solvable: "The level has a solution.",
+    unsolvable: "The level has no solution.",
+    valid: "Valid level.",
+    test: "Play test",
+    checkSolvable: "Is it solvable?",
+    export: "Export",
+    loadText: "Load text",
+    placeholder: "Level in ASCII (# wall, . target, $ box, @ player, * box on target, + player on target)",
+  },
+  g2048: {
+    board: "2048 board",
+    cell: (row, col, state) => `Row ${row}, column ${col}: ${state}`,
+    empty: "empty",
+    announceMove: (direction, merges, gained, score) =>
+      `${direction}.${merges.length > 0 ? ` Merged: ${merges.join(", ")}.` : ""}${gained > 0 ? ` +${gained} points, total ${score}.` : ""}`,
+    announceNewTile: (value, row, col) => `New ${value} tile at row ${row}, column ${col}.`,
+    announceUndo: (score) => `Move undone. Score: ${score}.`,
+    finalScore: (score) => `Final score: ${score}.`,
+    entry: (score, tile, moves) => `${score} points, tile ${tile} (${moves} moves)`,
+    recordErrors: {
+      size: (value) => `Invalid size: ${value ?? "size= is missing"}.`,
+      seed: (value) => `Invalid seed: ${value ?? "seed= is missing"}.`,
+      letter: (letter, position) => `Invalid move "${letter}" at position ${position}.`,
+      noMove: (move, letter) => `Move ${move} ("${letter}") does not move any tile.`,
+    },
+    directions: { up: "Up", left: "Left", right: "Right", down: "Down" },
+    speeds: { slow: "Slow", normal: "Normal", fast: "Fast", max: "Maximum" },
+    dailyResult: (score, tile) => `${score} points (tile ${tile})`,
+    aiFailed: "The AI failed; please try again.",
+    noMoves: "There are no moves left.",
+    copied: "Game copied to the clipboard.",
+    score: "Score",
+    time: "Time",
+    best: (size) => `Best ${size}x${size}`,
+    size: "Size",
+    target: "Target",
+    won: "You win!",
+    wonDetail: (target, score) => `You reached ${target} with ${score} points.`,
+    keepPlaying: "Keep playing",
+    newGame: "New game",
+    suggest: "Suggest",
+    stop: "Stop",
+    autoplay: "Autoplay",
+    depth: "Depth",
+    speed: "Speed",
+    thinking: "Thinking…",
+    suggestion: (direction) => `Suggestion: ${direction}`,
+    reset: "Reset",
+    undo: "Undo",
+    seed: "Seed:",
+    otherSeed: "Another seed",
+    playSeed: "Play this seed",
+    replayPosition: "Replay move",
+    replayStep: (step, total) => `Move ${step} of ${total}`,
+    playFromHere: "Play from here",
+    exit: "Exit",
+    record: "Recorded game",
+    export: "Export",
+    replay: "Replay",
+    gameOver: "Game over — no moves left",
+    confirmReset: "Start a new game? The current one will be lost.",
+    help: (target) => `Controls: arrows or WASD. A new tile appears after every valid move. Reach ${target} to win.`,
+  },
+};
+
+export default en;
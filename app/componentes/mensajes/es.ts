@@ -0,0 +1,393 @@
+// Textos de la interfaz en español (idioma por defecto).
+// Los demás catálogos tienen la misma forma (tipo Messages); los textos con datos son funciones.
+
+const es = {
+  meta: {
+    site: "Juegos",
+    description: "Sudoku, Sokoban y 2048 para jugar en el navegador.",
+    pages: { stats: "Estadísticas" },
+  },
+  // juegos del registro (componentes/juegos.ts): menú, tarjetas del inicio y metadatos de su página
+  games: {
+    sudoku: {
+      title: "Sudoku",
+      description: "Rellena la cuadrícula sin repetir números. Clásico, X-Sudoku y Killer, con pistas paso a paso.",
+    },
+    sokoban: {
+      title: "Sokoban",
+      description: "Empuja todas las cajas hasta sus objetivos. Colecciones de niveles, editor y solver.",
+    },
+    g2048: {
+      title: "2048",
+      description: "Desliza y junta fichas iguales hasta llegar a 2048. Partidas con semilla e IA que sugiere jugadas.",
+    },
+  },
+  nav: {
+    stats: "Estadísticas",
+    language: "Idioma",
+    highContrast: "Alto contraste",
+  },
+  home: {
+    welcome: "Bienvenido a los juegos",
+    pick: "Elige un juego para comenzar 🎮",
+    play: "Jugar",
+  },
+  continue: {
+    badge: "A medias",
+    resume: "Continuar",
+    startNew: "Empezar nueva",
+    sudoku: (filled: number, total: number, time: string) => `${filled}/${total} casillas · ${time}`,
+    sokoban: (pack: string, level: number, moves: number, time: string) =>
+      `${pack}, nivel ${level} · ${moves} movimientos · ${time}`,
+    g2048: (score: number, time: string) => `${score} puntos · ${time}`,
+  },
+  daily: {
+    button: "Reto diario",
+    title: (day: string) => `Reto diario del ${day}`,
+    completed: (result: string) => `Completado: ${result}`,
+    streak: (days: number) => `Racha: ${days} ${days === 1 ? "día" : "días"}`,
+    copy: "Copiar resumen",
+    copied: "Copiado.",
+    intro: "El mismo puzzle para todos hoy; el primer resultado es el que cuenta.",
+    summary: (day: string, game: string, result: string, streak: number) =>
+      `Reto diario ${day} — ${game}: ${result}${streak > 1 ? ` · racha de ${streak} días` : ""}`,
+  },
+  notices: {
+    accept: "Aceptar",
+    cancel: "Cancelar",
+    close: "Cerrar",
+  },
+  leaderboard: {
+    title: "Clasificación",
+    loading: "Cargando…",
+    empty: "Todavía no hay resultados.",
+    loadError: "No se ha podido cargar la clasificación.",
+    sent: (result: string, rank: number | null) =>
+      rank === null ? `Enviado: ${result}, pero no entra en la clasificación.` : `Enviado: ${result}. Tu mejor puesto: ${rank}.`,
+    sendError: "No se ha podido enviar el resultado.",
+    name: "Tu nombre",
+    nameLabel: "Nombre para la clasificación",
+    sending: "Enviando…",
+    send: "Enviar resultado",
+    errors: {
+      "bad-board": "Tabla no válida.",
+      "bad-body": "Envío no válido.",
+      "bad-name": (max: number) => `El nombre tiene que tener entre 1 y ${max} caracteres.`,
+      "unknown-game": "Juego desconocido.",
+      "bad-record": "Partida no válida.",
+      "not-finished": "La partida no ha terminado: aún quedan movimientos.",
+      "bad-solution": "Solución no válida.",
+      "not-bundled": "La clasificación solo admite niveles de las colecciones incluidas.",
+      "bad-step": (step: number) => `El paso ${step} de la solución no es posible.`,
+      "not-solved": "La solución no deja todas las cajas en los objetivos.",
+      "bad-sudoku": "Sudoku no válido.",
+      "bad-size": (size: number) => `Tamaño no válido: ${size}.`,
+      incomplete: "El Sudoku no está completo.",
+      repeated: "La solución tiene números repetidos.",
+      "too-fast": "Tiempo imposible para este puzzle.",
+    },
+  },
+  achievements: {
+    unlocked: (titles: string[]) => `${titles.length === 1 ? "Logro desbloqueado" : "Logros desbloqueados"}: ${titles.join(", ")}`,
+    list: {
+      "sudoku-first": { title: "Primer Sudoku", description: "Resuelve un Sudoku." },
+      "sudoku-expert": { title: "Experto", description: "Resuelve un Sudoku de dificultad experta." },
+      "sudoku-fast": { title: "Contrarreloj", description: "Resuelve un Sudoku 9x9 en menos de 5 minutos." },
+      "sudoku-variants": { title: "Variado", description: "Resuelve un X-Sudoku y un Killer." },
+      "sokoban-first": { title: "Mozo de almacén", description: "Completa un nivel de Sokoban." },
+      "sokoban-ten": { title: "Encargado", description: "Completa 10 niveles distintos de Sokoban." },
+      "2048-first": { title: "Primera partida", description: "Termina una partida de 2048." },
+      "2048-2048": { title: "2048", description: "Consigue la ficha 2048." },
+      "2048-4096": { title: "Más allá", description: "Consigue la ficha 4096." },
+      "2048-score": { title: "Veinte mil", description: "Termina una partida de 2048 con 20000 puntos o más." },
+      "all-games": { title: "De todo un poco", description: "Termina una partida de cada juego." },
+    },
+  },
+  stats: {
+    title: "Estadísticas",
+    solved: "Resueltos",
+    difficulty: "Dificultad",
+    bestTime: "Mejor tiempo",
+    levelsCompleted: "Niveles completados",
+    level: "Nivel",
+    times: "Veces",
+    minMoves: "Mín. movimientos",
+    minPushes: "Mín. empujes",
+    games: "Partidas",
+    highestTile: "Ficha más alta",
+    bestScore: "Mejor puntuación",
+    average: "Media",
+    score: "Puntuación",
+    achievements: "Logros",
+  },
+  sudoku: {
+    board: "Tablero de Sudoku",
+    cell: (row: number, col: number, state: string) => `Fila ${row}, columna ${col}: ${state}`,
+    clue: (value: string) => `pista ${value}`,
+    empty: "vacía",
+    notesList: (values: string) => `notas ${values}`,
+    conflict: "en conflicto",
+    hintTarget: "se puede deducir",
+    hintCell: "usada en la pista",
+    cage: (sum: number) => `jaula que suma ${sum}`,
+    size: "Tamaño",
+    variant: "Variante",
+    difficulty: "Dificultad",
+    difficulties: { easy: "Fácil", medium: "Medio", hard: "Difícil", expert: "Experto" },
+    variants: { classic: "Clásico", diagonal: "X-Sudoku", killer: "Killer" },
+    techniques: {
+      "naked-single": "Single desnudo",
+      "hidden-single": "Single oculto",
+      "naked-pair": "Pareja desnuda",
+      "hidden-pair": "Pareja oculta",
+      pointing: "Par apuntador",
+      "box-line": "Reducción caja-línea",
+      "naked-triple": "Trío desnudo",
+      "hidden-triple": "Trío oculto",
+      "x-wing": "X-Wing",
+    },
+    cellName: (row: number, col: number) => `(f${row}, c${col})`,
+    units: {
+      row: (n: number) => `la fila ${n}`,
+      col: (n: number) => `la columna ${n}`,
+      box: (n: number) => `la caja ${n}`,
+      diagonal: (n: number): string => (n === 1 ? "la diagonal principal" : "la diagonal secundaria"),
+      cage: (n: number, sum: number) => `la jaula ${n} (suma ${sum})`,
+    },
+    reasons: {
+      nakedSingle: (cell: string, value: string) => `La celda ${cell} solo admite el ${value}.`,
+      hiddenSingle: (unit: string, value: string, cell: string) => `En ${unit} el ${value} solo cabe en ${cell}.`,
+      nakedSubset: (cells: string, values: string, unit: string) =>
+        `Las celdas ${cells} solo pueden contener ${values}; se quitan esos números del resto de ${unit}.`,
+      hiddenSubset: (unit: string, values: string, cells: string) =>
+        `En ${unit} los números ${values} solo caben en ${cells}; esas celdas no pueden tener otros candidatos.`,
+      intersection: (from: string, value: string, to: string) =>
+        `En ${from} el ${value} solo puede ir dentro de ${to}, así que se quita del resto de ${to}.`,
+      xWing: (rows: boolean, first: number, second: number, value: string) =>
+        `En las ${rows ? "filas" : "columnas"} ${first} y ${second} el ${value} solo cabe en las mismas dos posiciones, formando un rectángulo; se quita de esas líneas en el resto del tablero.`,
+    },
+    parseErrors: {
+      empty: "El texto está vacío.",
+      badChar: (char: string, allowed: string) => `Carácter no válido "${char}"; usa ${allowed} y 0 o . para las vacías.`,
+      cellCount: (expected: number, found: number) => `Se esperaban ${expected} celdas y hay ${found}.`,
+      repeated: (cells: string) => `Hay números repetidos en las celdas ${cells}.`,
+      sharedPuzzle: (error: string) => `Puzzle del enlace no válido: ${error}`,
+      sharedProgress: (error: string) => `Progreso del enlace no válido: ${error}`,
+      sharedMismatch: "El progreso del enlace no coincide con las pistas del puzzle.",
+    },
+    generating: "Generando…",
+    newGame: "Nuevo juego",
+    status: (difficulty: string, time: string) => `Dificultad: ${difficulty} · Tiempo: ${time}`,
+    solverFailed: "El solver ha fallado; inténtalo de nuevo.",
+    killerImport: "Las jaulas de Killer no se pueden importar en texto; elige otra variante.",
+    checkingPuzzle: "Comprobando el puzzle…",
+    importUnsolvable: "El puzzle no tiene solución.",
+    imported: "Puzzle importado.",
+    importedMultiple: "Puzzle importado, pero tiene más de una solución.",
+    killerExport: "Ojo: las jaulas de Killer no se incluyen en el texto.",
+    killerShare: "Las partidas Killer no se pueden compartir por enlace.",
+    linkCopied: "Enlace copiado al portapapeles.",
+    link: (url: string) => `Enlace: ${url}`,
+    boardFull: "El tablero ya está completo.",
+    hintConflicts: "Hay conflictos en el tablero; corrígelos antes de pedir una pista.",
+    hintWrong: "Algún número colocado es incorrecto: el tablero ya no tiene solución.",
+    hintStuck: "Ninguna técnica conocida da el siguiente paso; toca probar valores.",
+    dailyResult: (time: string, difficulty: string) => `resuelto en ${time} (${difficulty.toLowerCase()})`,
+    solvedTitle: "¡Sudoku resuelto!",
+    solvedDetail: (time: string) => `Completado sin conflictos en ${time}.`,
+    incompleteAlert: "Sin conflictos por ahora, pero faltan celdas por llenar.",
+    conflictsAlert: "Hay conflictos. Se han marcado en el tablero.",
+    solveConflicts: "Hay conflictos en el tablero; corrígelos antes de resolver.",
+    solveNoSolution: "No hay solución a partir del estado actual: algún número colocado es incorrecto. Usa Deshacer o Reiniciar.",
+    solveMultiple: "El puzzle tiene más de una solución; se muestra una de ellas.",
+    check: "Comprobar",
+    hint: "Pista",
+    undo: "Deshacer",
+    reset: "Reiniciar",
+    confirmReset: "¿Reiniciar el tablero? Se borrarán los números y las notas que has puesto.",
+    confirmSolve: "¿Mostrar la solución? La partida ya no contará como resuelta.",
+    solving: "Resolviendo…",
+    solve: "Solucionar",
+    cancel: "Cancelar",
+    notes: (on: boolean) => `Notas: ${on ? "Sí" : "No"}`,
+    fillNotes: "Rellenar candidatos",
+    autoClearNotes: "Quitar notas al colocar",
+    importExport: "Importar / exportar",
+    ioPlaceholder:
+      "Una línea con todas las celdas (0 o . para vacías) o una fila por línea en formato SDK; se usa el tamaño y la variante elegidos",
+    import: "Importar",
+    exportLine: "Exportar línea",
+    exportSdk: "Exportar SDK",
+    share: "Compartir enlace",
+    help: 'Celdas en gris son pistas (no editables). Las rojas indican conflictos. Con "Pista" la celda verde es la que se puede deducir. Con las flechas se pasa de una celda a otra. En modo notas cada número anota o quita un candidato. En X-Sudoku las diagonales sombreadas tampoco repiten; en Killer cada jaula discontinua suma el número de su esquina.',
+  },
+  sokoban: {
+    board: "Tablero de Sokoban",
+    cell: (row: number, col: number, state: string) => `Fila ${row}, columna ${col}: ${state}`,
+    cells: {
+      "#": "pared",
+      " ": "suelo",
+      ".": "objetivo",
+      $: "caja",
+      "*": "caja en objetivo",
+      "@": "jugador",
+      "+": "jugador en objetivo",
+    },
+    deadlocked: "bloqueada",
+    hintBox: "caja de la pista",
+    hintTarget: "destino de la pista",
+    announceStep: (direction: string, moves: number) => `Andas hacia ${direction} (${moves} movimientos).`,
+    announcePush: (direction: string, placed: number, boxes: number, moves: number) =>
+      `Empujas una caja hacia ${direction}: ${placed} de ${boxes} en su objetivo (${moves} movimientos).`,
+    blocked: (direction: string) => `No puedes ir hacia ${direction}.`,
+    announceJump: (move: number, total: number) => `Vuelves al movimiento ${move} de ${total}.`,
+    movesAndPushes: (moves: number, pushes: number) => `${moves} movimientos, ${pushes} empujes`,
+    directions: { l: "la izquierda", u: "arriba", r: "la derecha", d: "abajo" },
+    editorTest: "Prueba del editor",
+    packsUnreadable: "No se han podido leer las colecciones de niveles.",
+    packsFailed: "No se han podido cargar las colecciones de niveles.",
+    solverFailed: "El solver ha fallado; inténtalo de nuevo.",
+    unsolvable: "Desde esta posición no hay solución: deshaz algunos movimientos o reinicia el nivel.",
+    limit: (explored: string) => `No he encontrado la solución tras explorar ${explored} posiciones.`,
+    solution: (moves: number, pushes: number) => `Solución: ${moves} movimientos, ${pushes} empujes.`,
+    hintPush: (direction: string) => `Pista: empuja la caja marcada hacia ${direction}.`,
+    dailyResult: (moves: number, pushes: number, time: string) => `${moves} movimientos, ${pushes} empujes en ${time}`,
+    deadlockPrevented: "Ese empuje dejaría el nivel sin solución; el asistente lo ha impedido.",
+    nothingToReplay: "No hay movimientos que reproducir.",
+    invalidMove: (position: number, move: string) => `Movimiento no válido en la posición ${position} ("${move}").`,
+    replayIncomplete: "Ojo: estos movimientos no completan el nivel.",
+    loaded: (levels: number, title: string) => `Cargados ${levels} niveles de "${title}".`,
+    loadedWithWarnings: (levels: number, warnings: string) => `Cargados ${levels} niveles; descartados: ${warnings}`,
+    levelNumber: (n: number) => `Nivel ${n}`,
+    fileUnreadable: (name: string) => `No se ha podido leer ${name}.`,
+    problems: {
+      badChar: (char: string) => `Carácter no válido "${char}" en el nivel.`,
+      noPlayer: "No hay jugador.",
+      players: (count: number) => `Hay ${count} jugadores; debe haber uno.`,
+      noBoxes: "No hay cajas.",
+      mismatch: (boxes: number, goals: number) => `Hay ${boxes} cajas y ${goals} objetivos; deben coincidir.`,
+      open: "El nivel no está cerrado por paredes.",
+      noPlayable: (warnings: string) => `Ningún nivel es jugable. ${warnings}`,
+      noLevels: "El archivo no contiene niveles.",
+    },
+    backToLevel: "Volver al nivel",
+    pickLevel: "Elegir nivel",
+    editor: "Editor",
+    uploadPack: "Cargar colección…",
+    loadingLevels: "Cargando niveles…",
+    pack: "Colección",
+    author: (name: string) => `Autor: ${name}.`,
+    completed: "Completado",
+    moves: "Movimientos",
+    pushes: "Empujes",
+    time: "Tiempo",
+    best: (moves: number, pushes: number) => `(mejor: ${moves} / ${pushes})`,
+    up: "Arriba",
+    left: "Izquierda",
+    right: "Derecha",
+    down: "Abajo",
+    undo: "Deshacer",
+    redo: "Rehacer",
+    reset: "Reiniciar",
+    backToEditor: "Volver al editor",
+    nextLevel: "Siguiente nivel",
+    edit: "Editar",
+    hint: "Pista",
+    searching: "Buscando…",
+    solve: "Resolver",
+    cancel: "Cancelar",
+    pause: "Pausa",
+    resume: "Continuar",
+    step: "Paso",
+    stop: "Detener",
+    controls:
+      "Controles: flechas / WASD, clic para andar y arrastrar una caja para empujarla. Objetivo: colocar todas las cajas en los objetivos.",
+    lurd: "Movimientos en LURD",
+    lurdPlaceholder: "Pega una solución (l/u/r/d; mayúsculas para los empujes)",
+    replay: "Reproducir",
+    myMoves: "Mis movimientos",
+    showBest: "Ver mejor solución",
+    preventDeadlocks: "Evitar empujes que bloquean (y sombrear casillas muertas)",
+    won: "¡Nivel completado!",
+    lostTitle: "Nivel bloqueado",
+    lost: "Las cajas marcadas ya no pueden llegar a un objetivo. Usa Deshacer o Reiniciar.",
+    confirmReset: "¿Reiniciar el nivel? Se perderán los movimientos hechos.",
+  },
+  editor: {
+    tools: { wall: "Pared", floor: "Suelo", goal: "Objetivo", box: "Caja", player: "Jugador" },
+    width: "Ancho",
+    height: "Alto",
+    clear: "Vaciar",
+    minSize: (size: number) => `El nivel debe medir al menos ${size}x${size}.`,
+    copied: "Nivel copiado al portapapeles.",
+    searching: "Buscando solución…",
+    undecided: "No se ha podido decidir si tiene solución dentro del límite.",
+    solvable: "El nivel tiene solución.",
+    unsolvable: "El nivel no tiene solución.",
+    valid: "Nivel válido.",
+    test: "Probar",
+    checkSolvable: "¿Tiene solución?",
+    export: "Exportar",
+    loadText: "Cargar texto",
+    placeholder: "Nivel en ASCII (# pared, . objetivo, $ caja, @ jugador, * caja en objetivo, + jugador en objetivo)",
+  },
+  g2048: {
+    board: "Tablero de 2048",
+    cell: (row: number, col: number, state: string) => `Fila ${row}, columna ${col}: ${state}`,
+    empty: "vacía",
+    announceMove: (direction: string, merges: number[], gained: number, score: number) =>
+      `${direction}.${merges.length > 0 ? ` Fusiones: ${merges.join(", ")}.` : ""}${gained > 0 ? ` +${gained} puntos, total ${score}.` : ""}`,
+    announceNewTile: (value: number, row: number, col: number) => `Nueva ficha ${value} en fila ${row}, columna ${col}.`,
+    announceUndo: (score: number) => `Movimiento deshecho. Puntos: ${score}.`,
+    finalScore: (score: number) => `Puntuación final: ${score}.`,
+    entry: (score: number, tile: number, moves: number) => `${score} puntos, ficha ${tile} (${moves} movimientos)`,
+    recordErrors: {
+      size: (value: string | null) => `Tamaño no válido: ${value ?? "falta size="}.`,
+      seed: (value: string | null) => `Semilla no válida: ${value ?? "falta seed="}.`,
+      letter: (letter: string, position: number) => `Movimiento no válido "${letter}" en la posición ${position}.`,
+      noMove: (move: number, letter: string) => `El movimiento ${move} ("${letter}") no mueve ninguna ficha.`,
+    },
+    directions: { up: "Arriba", left: "Izquierda", right: "Derecha", down: "Abajo" },
+    speeds: { slow: "Lenta", normal: "Normal", fast: "Rápida", max: "Máxima" },
+    dailyResult: (score: number, tile: number) => `${score} puntos (ficha ${tile})`,
+    aiFailed: "La IA ha fallado; inténtalo de nuevo.",
+    noMoves: "No queda ningún movimiento.",
+    copied: "Partida copiada al portapapeles.",
+    score: "Puntos",
+    time: "Tiempo",
+    best: (size: number) => `Mejor ${size}x${size}`,
+    size: "Tamaño",
+    target: "Objetivo",
+    won: "¡Has ganado!",
+    wonDetail: (target: number, score: number) => `Has llegado a ${target} con ${score} puntos.`,
+    keepPlaying: "Seguir jugando",
+    newGame: "Nueva partida",
+    suggest: "Sugerir",
+    stop: "Parar",
+    autoplay: "Autoplay",
+    depth: "Profundidad",
+    speed: "Velocidad",
+    thinking: "Pensando…",
+    suggestion: (direction: string) => `Sugerencia: ${direction}`,
+    reset: "Reiniciar",
+    undo: "Deshacer",
+    seed: "Semilla:",
+    otherSeed: "Otra semilla",
+    playSeed: "Jugar esta semilla",
+    replayPosition: "Movimiento de la repetición",
+    replayStep: (step: number, total: number) => `Movimiento ${step} de ${total}`,
+    playFromHere: "Jugar desde aquí",
+    exit: "Salir",
+    record: "Partida grabada",
+    export: "Exportar",
+    replay: "Reproducir",
+    gameOver: "Fin de la partida — no quedan movimientos",
+    confirmReset: "¿Empezar una partida nueva? Se perderá la actual.",
+    help: (target: number) =>
+      `Controles: flechas o WASD. Tras cada movimiento válido aparece una ficha nueva. Llega a ${target} para ganar.`,
+  },
+};
+
+export type Messages = typeof es;
+
+export default es;
@@ -1,20 +1,32 @@
 "use client";
 
 import Link from "next/link";
-import { usePathname } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
+import { CONTRAST_COOKIE, HIGH_CONTRAST } from "./contraste";
+import { savePreference } from "./cookies";
+import { LOCALE_NAMES, LOCALES } from "./idioma";
+import { useI18n } from "./idioma-cliente";
+import { GAMES } from "./juegos";
 
 type LinkItem = {
   href: string;
   label: string;
 };
 
-export default function NavBar() {
+// highContrast: modo de alto contraste activo (lo lee el layout de la cookie)
+export default function NavBar({ highContrast }: { highContrast: boolean }) {
   const path = usePathname();
+  const router = useRouter();
+  const { locale, t, setLocale } = useI18n();
+
+  function toggleContrast() {
+    savePreference(CONTRAST_COOKIE, highContrast ? "" : HIGH_CONTRAST);
+    router.refresh();
+  }
 
   const links: LinkItem[] = [
-    { href: "/primeraoriginal", label: "Sudoku" },
-    { href: "/segundaoriginal", label: "Sokoban" },
-    { href: "/terceraoriginal", label: "2048" },
+    ...GAMES.map((g) => ({ href: g.href, label: t.games[g.text].title })),
+    { href: "/estadisticas", label: t.nav.stats },
   ];
 
   return (
@@ -33,6 +45,28 @@ export default function NavBar() {
           </Link>
         );
       })}
+      {/* selector de idioma: cada opción con su nombre en su propio idioma */}
+      <div role="group" aria-label={t.nav.language} className="flex gap-1 text-sm">
+        {LOCALES.map((l) => (
+          <button
+            key={l}
+            onClick={() => setLocale(l)}
+            lang={l}
+            title={LOCALE_NAMES[l]}
+            aria-pressed={l === locale}
+            className={`px-2 py-1 rounded border border-white/60 uppercase ${l === locale ? "bg-white text-blue-700" : ""}`}
+          >
+            {l}
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={toggleContrast}
+        aria-pressed={highContrast}
+        className={`px-2 py-1 rounded border border-white/60 text-sm ${highContrast ? "bg-white text-blue-700" : ""}`}
+      >
+        {t.nav.highContrast}
+      </button>
     </nav>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,29 @@
+// random.ts
+// Números pseudoaleatorios reproducibles compartidos por los juegos.
+// - mulberry32 con el estado explícito (2048 lo guarda en la partida para que Undo y las repeticiones cuadren)
+// - Generador con semilla con la misma interfaz que Math.random (generador de Sudoku)
+// - Semilla a partir de un texto (djb2)
+
+// devuelve un número en [0, 1) y el siguiente estado
+export function nextRandom(state: number): [number, number] {
+  const next = (state + 0x6d2b79f5) | 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next];
+}
+
+export function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    const [value, next] = nextRandom(state);
+    state = next;
+    return value;
+  };
+}
+
+export function hashSeed(text: string): number {
+  let h = 5381;
+  for (let i = 0; i < text.length; i++) h = (Math.imul(h, 33) + text.charCodeAt(i)) >>> 0;
+  return h;
+}
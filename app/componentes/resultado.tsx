@@ -0,0 +1,45 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "./idioma-cliente";
+
+// Cartel de fin de partida encima del tablero, igual en los tres juegos (el contenedor tiene que ser relative).
+// Se puede cerrar para mirar el tablero; vuelve a salir la próxima vez que la página lo monte.
+// onClose: qué hacer al cerrarlo si la página necesita algo más que ocultarlo.
+// children: botones para seguir (siguiente nivel, partida nueva, deshacer...).
+export default function ResultOverlay({
+  outcome,
+  title,
+  detail,
+  onClose,
+  children,
+}: {
+  outcome: "won" | "lost";
+  title: string;
+  detail?: string;
+  onClose?: () => void;
+  children?: React.ReactNode;
+}) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(true);
+  if (!open) return null;
+
+  return (
+    <div
+      role="status"
+      className={`absolute inset-0 z-20 flex flex-col items-center justify-center gap-3 p-4 rounded text-center ${
+        outcome === "won" ? "bg-yellow-100/90" : "bg-gray-200/90"
+      }`}
+    >
+      <button onClick={onClose ?? (() => setOpen(false))} aria-label={t.notices.close} className="absolute top-1 right-2 text-lg">
+        ×
+      </button>
+      <div className="text-2xl font-bold">
+        <span aria-hidden>{outcome === "won" ? "🏆 " : "✋ "}</span>
+        {title}
+      </div>
+      {detail && <div className="text-sm text-gray-700">{detail}</div>}
+      {children && <div className="flex flex-wrap justify-center gap-2">{children}</div>}
+    </div>
+  );
+}
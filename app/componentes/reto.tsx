@@ -0,0 +1,44 @@
+"use client";
+
+import { useState } from "react";
+import { type DailyResult, dailyResults, dailyStreak, dailySummary, formatDay } from "./daily";
+import { useI18n } from "./idioma-cliente";
+import type { GameId } from "./storage";
+
+// Aviso del reto diario en la página de cada juego: qué día es y, una vez terminado,
+// el resultado, la racha y el resumen para copiar.
+export default function DailyPanel({ game, day, result }: { game: GameId; day: string; result: DailyResult | null }) {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+  const streak = result ? dailyStreak(dailyResults(game), day) : 0;
+  const summary = result ? dailySummary(t, game, day, result, streak) : "";
+
+  function handleCopy() {
+    navigator.clipboard.writeText(summary).then(
+      () => setCopied(true),
+      () => setCopied(false)
+    );
+  }
+
+  return (
+    <div className="mb-3 p-2 border rounded bg-blue-50 text-sm">
+      <div className="font-semibold">{t.daily.title(formatDay(day))}</div>
+      {result ? (
+        <>
+          <div className="mt-1">
+            {t.daily.completed(result.result)}
+            {streak > 0 && <> · {t.daily.streak(streak)}</>}
+          </div>
+          <div className="flex items-center gap-2 mt-2">
+            <button onClick={handleCopy} className="px-3 py-1 border rounded bg-white">
+              {t.daily.copy}
+            </button>
+            {copied && <span className="text-gray-600">{t.daily.copied}</span>}
+          </div>
+        </>
+      ) : (
+        <div className="mt-1 text-gray-700">{t.daily.intro}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { MESSAGES } from "./idioma";
+import { withMemoryStorage } from "./almacen-prueba";
+import {
+  type GameEvent,
+  recordEvent,
+  sokobanStats,
+  stats2048,
+  type StoredEvent,
+  sudokuStats,
+  unlockedMessage,
+} from "./stats";
+import { loadSaved } from "./storage";
+
+withMemoryStorage();
+
+const sudoku = (difficulty: "easy" | "expert", elapsed: number): StoredEvent => ({
+  game: "sudoku",
+  type: "solved",
+  difficulty,
+  size: 9,
+  kind: "classic",
+  elapsed,
+  at: 0,
+});
+const sokoban = (key: string, moves: number, pushes: number): StoredEvent => ({
+  game: "sokoban",
+  type: "completed",
+  key,
+  pack: "Microban",
+  title: key,
+  moves,
+  pushes,
+  elapsed: 60,
+  at: 0,
+});
+const game2048 = (score: number, maxTile: number): GameEvent => ({
+  game: "2048",
+  type: "finished",
+  size: 4,
+  score,
+  maxTile,
+  moves: 100,
+  elapsed: 60,
+});
+
+describe("estadísticas", () => {
+  it("Sudoku: resueltos y mejor tiempo por dificultad", () => {
+    const stats = sudokuStats([sudoku("easy", 300), sudoku("easy", 200), sudoku("expert", 900)]);
+    expect(stats.solved).toBe(3);
+    expect(stats.byDifficulty).toEqual([
+      { difficulty: "easy", solved: 2, bestTime: 200 },
+      { difficulty: "medium", solved: 0, bestTime: null },
+      { difficulty: "hard", solved: 0, bestTime: null },
+      { difficulty: "expert", solved: 1, bestTime: 900 },
+    ]);
+  });
+
+  it("Sokoban: cada nivel una vez con sus mejores marcas", () => {
+    const stats = sokobanStats([sokoban("a", 30, 8), sokoban("b", 12, 3), sokoban("a", 40, 6)]);
+    expect(stats.completed).toBe(2);
+    expect(stats.levels[0]).toMatchObject({ key: "a", times: 2, moves: 30, pushes: 6 });
+  });
+
+  it("2048: récords, media y reparto por ficha y por tramo", () => {
+    const events = [game2048(900, 128), game2048(6000, 512), game2048(2100, 128)].map((e) => ({ ...e, at: 0 }));
+    const stats = stats2048(events);
+    expect(stats).toMatchObject({ played: 3, bestScore: 6000, highestTile: 512, averageScore: 3000 });
+    expect(stats.tiles).toEqual([
+      { tile: 128, games: 2 },
+      { tile: 512, games: 1 },
+    ]);
+    expect(stats.scores.map((s) => s.games)).toEqual([1, 1, 1, 0, 0, 0]);
+  });
+
+  it("sin partidas todo queda a cero", () => {
+    expect(stats2048([])).toMatchObject({ played: 0, bestScore: 0, highestTile: 0, averageScore: 0 });
+  });
+});
+
+describe("recordEvent", () => {
+  it("guarda el evento y desbloquea cada logro una sola vez", () => {
+    expect(recordEvent(game2048(500, 64)).map((a) => a.id)).toEqual(["2048-first"]);
+    expect(recordEvent(game2048(25000, 2048)).map((a) => a.id)).toEqual(["2048-2048", "2048-score"]);
+    expect(recordEvent(game2048(25000, 2048))).toEqual([]);
+    const { stats } = loadSaved();
+    expect(stats.events).toHaveLength(3);
+    expect(Object.keys(stats.achievements).sort()).toEqual(["2048-2048", "2048-first", "2048-score"]);
+  });
+
+  it("el aviso nombra los logros en el idioma de la interfaz", () => {
+    const unlocked = recordEvent(game2048(500, 64));
+    expect(unlockedMessage(unlocked, MESSAGES.es)).toContain(MESSAGES.es.achievements.list["2048-first"].title);
+    expect(unlockedMessage([], MESSAGES.es)).toBeNull();
+  });
+});
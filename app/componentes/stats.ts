@@ -0,0 +1,172 @@
+// stats.ts
+// Estadísticas y logros de los tres juegos a partir de los eventos que emiten las páginas al terminar.
+// - Sudoku: "solved" al comprobar un tablero completo y correcto (sin haber usado Solucionar)
+// - Sokoban: "completed" al completar un nivel
+// - 2048: "finished" cuando no quedan movimientos
+// Los eventos se guardan (los últimos MAX_EVENTS) en la sección "stats" de storage.ts junto con la fecha
+// en que se desbloqueó cada logro; todo lo demás se calcula al mostrar la página de estadísticas.
+
+import type { Difficulty, VariantKind } from "../sudoku/sudoku";
+import type { Messages } from "./idioma";
+import { loadSaved, saveGame } from "./storage";
+
+export type GameEvent =
+  | { game: "sudoku"; type: "solved"; difficulty: Difficulty; size: number; kind: VariantKind; elapsed: number }
+  | {
+      game: "sokoban";
+      type: "completed";
+      key: string;
+      pack: string;
+      title: string;
+      moves: number;
+      pushes: number;
+      elapsed: number;
+    }
+  | { game: "2048"; type: "finished"; size: number; score: number; maxTile: number; moves: number; elapsed: number };
+
+// evento guardado con su fecha (ms desde 1970)
+export type StoredEvent = GameEvent & { at: number };
+
+export const MAX_EVENTS = 1000;
+
+// el título y la descripción de cada logro están en los catálogos de textos, con su id
+export type AchievementId = keyof Messages["achievements"]["list"];
+
+export type Achievement = { id: AchievementId; test: (events: StoredEvent[]) => boolean };
+
+const sudokus = (events: StoredEvent[]) => events.flatMap((e) => (e.game === "sudoku" ? [e] : []));
+const sokobanLevels = (events: StoredEvent[]) => new Set(events.flatMap((e) => (e.game === "sokoban" ? [e.key] : [])));
+const games2048 = (events: StoredEvent[]) => events.flatMap((e) => (e.game === "2048" ? [e] : []));
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: "sudoku-first",
+    test: (ev) => sudokus(ev).length > 0,
+  },
+  {
+    id: "sudoku-expert",
+    test: (ev) => sudokus(ev).some((e) => e.difficulty === "expert"),
+  },
+  {
+    id: "sudoku-fast",
+    test: (ev) => sudokus(ev).some((e) => e.size === 9 && e.elapsed < 300),
+  },
+  {
+    id: "sudoku-variants",
+    test: (ev) => sudokus(ev).some((e) => e.kind === "diagonal") && sudokus(ev).some((e) => e.kind === "killer"),
+  },
+  {
+    id: "sokoban-first",
+    test: (ev) => sokobanLevels(ev).size > 0,
+  },
+  {
+    id: "sokoban-ten",
+    test: (ev) => sokobanLevels(ev).size >= 10,
+  },
+  {
+    id: "2048-first",
+    test: (ev) => games2048(ev).length > 0,
+  },
+  {
+    id: "2048-2048",
+    test: (ev) => games2048(ev).some((e) => e.maxTile >= 2048),
+  },
+  {
+    id: "2048-4096",
+    test: (ev) => games2048(ev).some((e) => e.maxTile >= 4096),
+  },
+  {
+    id: "2048-score",
+    test: (ev) => games2048(ev).some((e) => e.score >= 20000),
+  },
+  {
+    id: "all-games",
+    test: (ev) => sudokus(ev).length > 0 && sokobanLevels(ev).size > 0 && games2048(ev).length > 0,
+  },
+];
+
+// guarda el evento y devuelve los logros que desbloquea
+export function recordEvent(event: GameEvent): Achievement[] {
+  const { stats } = loadSaved();
+  const events = [...stats.events, { ...event, at: Date.now() }].slice(-MAX_EVENTS);
+  const unlocked = ACHIEVEMENTS.filter((a) => !(a.id in stats.achievements) && a.test(events));
+  const achievements = { ...stats.achievements };
+  for (const a of unlocked) achievements[a.id] = Date.now();
+  saveGame("stats", { events, achievements });
+  return unlocked;
+}
+
+export type SudokuStats = {
+  solved: number;
+  byDifficulty: { difficulty: Difficulty; solved: number; bestTime: number | null }[];
+};
+
+export type SokobanStats = {
+  completed: number;
+  levels: { key: string; pack: string; title: string; times: number; moves: number; pushes: number }[];
+};
+
+export type Stats2048 = {
+  played: number;
+  bestScore: number;
+  highestTile: number;
+  averageScore: number;
+  // partidas por ficha más alta y por tramo de puntuación (desde `from`)
+  tiles: { tile: number; games: number }[];
+  scores: { from: number; games: number }[];
+};
+
+export const SCORE_BUCKETS = [0, 1000, 5000, 10000, 20000, 50000];
+
+const DIFFICULTY_ORDER: Difficulty[] = ["easy", "medium", "hard", "expert"];
+
+export function sudokuStats(events: StoredEvent[]): SudokuStats {
+  const solved = sudokus(events);
+  return {
+    solved: solved.length,
+    byDifficulty: DIFFICULTY_ORDER.map((difficulty) => {
+      const times = solved.filter((e) => e.difficulty === difficulty).map((e) => e.elapsed);
+      return { difficulty, solved: times.length, bestTime: times.length > 0 ? Math.min(...times) : null };
+    }),
+  };
+}
+
+export function sokobanStats(events: StoredEvent[]): SokobanStats {
+  const levels = new Map<string, SokobanStats["levels"][number]>();
+  for (const e of events) {
+    if (e.game !== "sokoban") continue;
+    const prev = levels.get(e.key);
+    levels.set(e.key, {
+      key: e.key,
+      pack: e.pack,
+      title: e.title,
+      times: (prev?.times ?? 0) + 1,
+      moves: Math.min(prev?.moves ?? Infinity, e.moves),
+      pushes: Math.min(prev?.pushes ?? Infinity, e.pushes),
+    });
+  }
+  return { completed: levels.size, levels: Array.from(levels.values()) };
+}
+
+export function stats2048(events: StoredEvent[]): Stats2048 {
+  const games = games2048(events);
+  const tiles = new Map<number, number>();
+  for (const g of games) tiles.set(g.maxTile, (tiles.get(g.maxTile) ?? 0) + 1);
+  return {
+    played: games.length,
+    bestScore: Math.max(0, ...games.map((g) => g.score)),
+    highestTile: Math.max(0, ...games.map((g) => g.maxTile)),
+    averageScore: games.length > 0 ? Math.round(games.reduce((sum, g) => sum + g.score, 0) / games.length) : 0,
+    tiles: Array.from(tiles, ([tile, n]) => ({ tile, games: n })).sort((a, b) => a.tile - b.tile),
+    scores: SCORE_BUCKETS.map((from, i) => {
+      const to = SCORE_BUCKETS[i + 1] ?? Infinity;
+      return { from, games: games.filter((g) => g.score >= from && g.score < to).length };
+    }),
+  };
+}
+
+// aviso para mostrar en la página del juego; null si no se ha desbloqueado nada
+export function unlockedMessage(unlocked: Achievement[], t: Messages) {
+  if (unlocked.length === 0) return null;
+  return t.achievements.unlocked(unlocked.map((a) => t.achievements.list[a.id].title));
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { withMemoryStorage } from "./almacen-prueba";
+import { clearCurrent, loadSaved, saveGame, STORAGE_KEY, STORAGE_VERSION } from "./storage";
+
+const items = withMemoryStorage();
+
+describe("migraciones", () => {
+  it("versión 0: recoge las claves sueltas de antes y las borra", () => {
+    items.set("sokoban-completados", JSON.stringify(["abc"]));
+    items.set("sokoban-mejores", JSON.stringify({ abc: "RR" }));
+    items.set("2048-mejores", JSON.stringify({ 4: 1234 }));
+    const saved = loadSaved();
+    expect(saved.version).toBe(STORAGE_VERSION);
+    expect(saved.sokoban).toMatchObject({ completed: ["abc"], best: { abc: "RR" } });
+    expect(saved["2048"].best).toEqual({ 4: 1234 });
+    expect(items.has("sokoban-completados")).toBe(false);
+    expect(items.has("2048-mejores")).toBe(false);
+    expect(JSON.parse(items.get(STORAGE_KEY)!)).toEqual(saved);
+  });
+
+  it("sin nada guardado da el documento vacío de la versión actual", () => {
+    expect(loadSaved()).toEqual({
+      version: STORAGE_VERSION,
+      sudoku: { current: null },
+      sokoban: { current: null, level: null, completed: [], best: {} },
+      "2048": { current: null, best: {} },
+      stats: { events: [], achievements: {} },
+      daily: { sudoku: {}, sokoban: {}, "2048": {} },
+      player: { name: "" },
+    });
+  });
+
+  it("versión 1: añade estadísticas, retos y jugador conservando lo demás", () => {
+    const v1 = {
+      version: 1,
+      sudoku: { current: null },
+      sokoban: { current: null, level: null, completed: ["x"], best: {} },
+      "2048": { current: null, best: { 4: 50 } },
+    };
+    items.set(STORAGE_KEY, JSON.stringify(v1));
+    const saved = loadSaved();
+    expect(saved.version).toBe(STORAGE_VERSION);
+    expect(saved.sokoban.completed).toEqual(["x"]);
+    expect(saved["2048"].best).toEqual({ 4: 50 });
+    expect(saved.stats).toEqual({ events: [], achievements: {} });
+    expect(saved.daily).toEqual({ sudoku: {}, sokoban: {}, "2048": {} });
+    expect(saved.player).toEqual({ name: "" });
+    expect(JSON.parse(items.get(STORAGE_KEY)!).version).toBe(STORAGE_VERSION);
+  });
+
+  it("versión 3: solo falta el jugador", () => {
+    items.set(STORAGE_KEY, JSON.stringify({ ...loadSaved(), version: 3, player: undefined }));
+    expect(loadSaved().player).toEqual({ name: "" });
+  });
+
+  it("un documento de una versión más nueva se lee sin reescribirlo", () => {
+    const raw = JSON.stringify({ version: STORAGE_VERSION + 1, player: { name: "Ana" }, futuro: true });
+    items.set(STORAGE_KEY, raw);
+    expect(loadSaved().player).toEqual({ name: "Ana" });
+    expect(items.get(STORAGE_KEY)).toBe(raw);
+  });
+
+  it("un documento ilegible no rompe la carga", () => {
+    items.set(STORAGE_KEY, "{no es json");
+    expect(loadSaved().version).toBe(STORAGE_VERSION);
+  });
+});
+
+describe("saveGame", () => {
+  it("cambia una sección y conserva el resto", () => {
+    saveGame("player", { name: "Ana" });
+    saveGame("2048", { best: { 4: 10 } });
+    const saved = loadSaved();
+    expect(saved.player.name).toBe("Ana");
+    expect(saved["2048"]).toEqual({ current: null, best: { 4: 10 } });
+  });
+
+  it("en un documento de una versión más nueva conserva la versión y lo desconocido", () => {
+    items.set(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION + 1, player: { name: "Ana", pais: "es" }, futuro: 1 }));
+    saveGame("player", { name: "Eva" });
+    expect(JSON.parse(items.get(STORAGE_KEY)!)).toEqual({
+      version: STORAGE_VERSION + 1,
+      player: { name: "Eva", pais: "es" },
+      futuro: 1,
+    });
+  });
+
+  it("clearCurrent quita la partida a medias de un juego", () => {
+    const level = { pack: "p", index: 0, key: "k" };
+    saveGame("sokoban", { completed: ["a"], current: { level, moves: "r", redo: "", elapsed: 3 } });
+    clearCurrent("sokoban");
+    expect(loadSaved().sokoban).toMatchObject({ current: null, completed: ["a"] });
+  });
+});
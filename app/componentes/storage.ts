@@ -0,0 +1,173 @@
+// storage.ts
+// Persistencia compartida de los juegos en localStorage.
+// - Un único documento versionado con la partida en curso y los récords de cada juego
+// - Al leerlo se migra desde versiones anteriores; la versión 0 son las claves sueltas de antes
+//   ("sokoban-completados", "sokoban-mejores", "2048-mejores"), que se borran tras migrarlas
+// - `current` es una partida empezada y sin terminar: la página la restaura al abrirse y el inicio
+//   ofrece continuarla o empezar otra
+// - `stats`: eventos de partidas terminadas y logros desbloqueados (stats.ts); se añadió en la versión 2
+// - `daily`: resultado del reto diario de cada juego por día (daily.ts); versión 3
+// - `player`: nombre con el que se envían resultados a la clasificación (clasificacion.ts); versión 4
+// - Leer o guardar nunca lanza: sin localStorage (servidor, modo privado, cuota llena) se usa el documento vacío
+
+import type { Board, Difficulty, Notes, Rules } from "../sudoku/sudoku";
+import type { Game } from "../2048/game";
+import type { DailyResult } from "./daily";
+import type { StoredEvent } from "./stats";
+
+export const STORAGE_KEY = "juegos";
+export const STORAGE_VERSION = 4;
+
+export type GameId = "sudoku" | "sokoban" | "2048";
+
+// daily: día del reto diario si la partida es ese reto
+export type SudokuSave = {
+  puzzle: Board;
+  board: Board;
+  rules: Rules;
+  notes: Notes;
+  history: { board: Board; notes: Notes }[];
+  difficulty: Difficulty;
+  elapsed: number; // segundos
+  daily?: string;
+};
+
+// el nivel se identifica por el título de la colección, su posición y la clave del tablero (levelKey)
+export type SokobanLevelRef = { pack: string; index: number; key: string };
+
+// assisted: han jugado el solver de Sokoban o la IA del 2048; la partida no cuenta como del jugador
+export type SokobanSave = {
+  level: SokobanLevelRef;
+  moves: string;
+  redo: string;
+  elapsed: number;
+  daily?: string;
+  assisted?: boolean;
+};
+
+export type Game2048Save = {
+  game: Game;
+  history: Game[];
+  target: number;
+  keepGoing: boolean;
+  elapsed: number;
+  daily?: string;
+  assisted?: boolean;
+};
+
+export type Saved = {
+  version: number;
+  sudoku: { current: SudokuSave | null };
+  // level: último nivel abierto, para volver a él aunque no haya partida a medias
+  sokoban: { current: SokobanSave | null; level: SokobanLevelRef | null; completed: string[]; best: Record<string, string> };
+  "2048": { current: Game2048Save | null; best: Record<number, number> };
+  // achievements: id del logro -> fecha de desbloqueo (ms)
+  stats: { events: StoredEvent[]; achievements: Record<string, number> };
+  // día ("2026-10-19") -> resultado del reto
+  daily: Record<GameId, Record<string, DailyResult>>;
+  player: { name: string };
+};
+
+export type SectionId = Exclude<keyof Saved, "version">;
+
+const LEGACY_KEYS = ["sokoban-completados", "sokoban-mejores", "2048-mejores"];
+
+function emptySaved(): Saved {
+  return {
+    version: STORAGE_VERSION,
+    sudoku: { current: null },
+    sokoban: { current: null, level: null, completed: [], best: {} },
+    "2048": { current: null, best: {} },
+    stats: { events: [], achievements: {} },
+    daily: { sudoku: {}, sokoban: {}, "2048": {} },
+    player: { name: "" },
+  };
+}
+
+function readLegacy<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+// MIGRATIONS[n] pasa un documento de la versión n a la n + 1
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  0: () => {
+    const saved = emptySaved();
+    saved.sokoban.completed = readLegacy<string[]>("sokoban-completados", []);
+    saved.sokoban.best = readLegacy<Record<string, string>>("sokoban-mejores", {});
+    saved["2048"].best = readLegacy<Record<number, number>>("2048-mejores", {});
+    return { ...saved, version: 1 };
+  },
+  1: (data) => ({ ...data, version: 2, stats: { events: [], achievements: {} } }),
+  2: (data) => ({ ...data, version: 3, daily: { sudoku: {}, sokoban: {}, "2048": {} } }),
+  3: (data) => ({ ...data, version: 4, player: { name: "" } }),
+};
+
+const versionOf = (data: Record<string, unknown>) => (typeof data.version === "number" ? data.version : 0);
+
+function migrate(data: Record<string, unknown>): Saved {
+  let version = versionOf(data);
+  while (version < STORAGE_VERSION) {
+    data = MIGRATIONS[version](data);
+    version++;
+  }
+  // secciones que falten (documento a medio escribir o de una versión más nueva) se rellenan vacías
+  const empty = emptySaved();
+  return {
+    version: STORAGE_VERSION,
+    sudoku: { ...empty.sudoku, ...(data.sudoku as object) },
+    sokoban: { ...empty.sokoban, ...(data.sokoban as object) },
+    "2048": { ...empty["2048"], ...(data["2048"] as object) },
+    stats: { ...empty.stats, ...(data.stats as object) },
+    daily: { ...empty.daily, ...(data.daily as object) },
+    player: { ...empty.player, ...(data.player as object) },
+  };
+}
+
+export function loadSaved(): Saved {
+  if (typeof window === "undefined") return emptySaved();
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const data = raw === null ? { version: 0 } : JSON.parse(raw);
+    const saved = migrate(data);
+    // solo se reescribe un documento antiguo; uno de una versión más nueva (otra pestaña ya actualizada)
+    // se lee sin tocarlo para no perder lo que esta versión no conoce
+    if (versionOf(data) < STORAGE_VERSION) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+      for (const key of LEGACY_KEYS) localStorage.removeItem(key);
+    }
+    return saved;
+  } catch {
+    return emptySaved();
+  }
+}
+
+// cambia una sección (la de un juego, las estadísticas…) conservando lo demás
+export function saveGame<K extends SectionId>(section: K, change: Partial<Saved[K]>) {
+  if (typeof window === "undefined") return;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const data = raw === null ? null : JSON.parse(raw);
+    // en un documento de una versión más nueva solo se toca la sección: se conservan su versión y lo que
+    // esta versión no conoce
+    const saved = data !== null && versionOf(data) > STORAGE_VERSION ? data : loadSaved();
+    saved[section] = { ...saved[section], ...change };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  } catch {
+    // sin espacio o sin acceso: la partida simplemente no se guarda
+  }
+}
+
+export function clearCurrent(game: GameId) {
+  saveGame(game, { current: null } as Partial<Saved[GameId]>);
+}
+
+// para useSyncExternalStore: avisa de cambios hechos desde otra pestaña
+export function subscribeSaved(onChange: () => void) {
+  window.addEventListener("storage", onChange);
+  return () => window.removeEventListener("storage", onChange);
+}
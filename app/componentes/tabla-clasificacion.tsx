@@ -0,0 +1,121 @@
+"use client";
+
+import { useEffect, useState, useSyncExternalStore } from "react";
+import {
+  type Entry,
+  fetchTop,
+  type GameResult,
+  leaderboardErrorMessage,
+  MAX_NAME,
+  submitResult,
+} from "./clasificacion";
+import { useI18n } from "./idioma-cliente";
+import { loadSaved, saveGame, subscribeSaved } from "./storage";
+
+// Clasificación de la tabla `board` (null si la partida actual no tiene, p. ej. un nivel subido) y,
+// si hay un resultado terminado (`result`), el envío con el nombre del jugador, que se recuerda.
+// `format` convierte una entrada en el texto de su resultado ("1234 puntos", "56 movimientos"…).
+export default function LeaderboardPanel({
+  board,
+  result,
+  format,
+}: {
+  board: string | null;
+  result: GameResult | null;
+  format: (entry: Entry) => string;
+}) {
+  const { t } = useI18n();
+  // la lista se guarda junto a su tabla para no mostrar la de otra mientras llega la nueva
+  const [loaded, setLoaded] = useState<{ board: string; entries: Entry[] } | null>(null);
+  const [error, setError] = useState(false);
+  const [refresh, setRefresh] = useState(0);
+  // nombre recordado (se lee después de hidratar: el servidor no lo conoce) hasta que el jugador escriba otro
+  const savedName = useSyncExternalStore(subscribeSaved, () => loadSaved().player.name, () => "");
+  const [typedName, setName] = useState<string | null>(null);
+  const name = typedName ?? savedName;
+  const [sending, setSending] = useState(false);
+  // resultado ya enviado (en JSON) y respuesta del servidor, que solo se muestra en su tabla
+  const [sent, setSent] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ board: string; text: string } | null>(null);
+
+  useEffect(() => {
+    if (!board) return;
+    let cancelled = false;
+    fetchTop(board).then(
+      (entries) => {
+        if (cancelled) return;
+        setLoaded({ board, entries });
+        setError(false);
+      },
+      () => !cancelled && setError(true)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [board, refresh]);
+
+  if (!board) return null;
+  const entries = loaded?.board === board ? loaded.entries : null;
+  const resultKey = result && JSON.stringify(result);
+
+  function handleSubmit() {
+    if (!board || !result || name.trim() === "") return;
+    const to = board;
+    saveGame("player", { name: name.trim() });
+    setSending(true);
+    submitResult({ ...result, name: name.trim() }).then(
+      (reply) => {
+        setSending(false);
+        if (!reply.ok) {
+          setMessage({ board: to, text: leaderboardErrorMessage(reply.error, t) });
+          return;
+        }
+        setSent(resultKey);
+        setMessage({
+          board: to,
+          text: t.leaderboard.sent(format(reply.entry), reply.rank),
+        });
+        setRefresh((n) => n + 1);
+      },
+      () => {
+        setSending(false);
+        setMessage({ board: to, text: t.leaderboard.sendError });
+      }
+    );
+  }
+
+  return (
+    <details className="mt-3 text-sm">
+      <summary className="cursor-pointer">{t.leaderboard.title}</summary>
+      {error && <p className="mt-2 text-red-600">{t.leaderboard.loadError}</p>}
+      {!error && !entries && <p className="mt-2 text-gray-600">{t.leaderboard.loading}</p>}
+      {entries && entries.length === 0 && <p className="mt-2 text-gray-600">{t.leaderboard.empty}</p>}
+      {entries && entries.length > 0 && (
+        <ol className="mt-2 list-decimal list-inside">
+          {entries.map((e) => (
+            <li key={e.name}>
+              <strong>{e.name}</strong> — {format(e)}
+              <span className="text-gray-500"> · {new Date(e.at).toLocaleDateString()}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+      {result && resultKey !== sent && (
+        <div className="flex flex-wrap items-center gap-2 mt-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={MAX_NAME}
+            placeholder={t.leaderboard.name}
+            className="px-2 py-1 border rounded"
+            aria-label={t.leaderboard.nameLabel}
+          />
+          <button onClick={handleSubmit} className="px-3 py-1 border rounded" disabled={sending || name.trim() === ""}>
+            {sending ? t.leaderboard.sending : t.leaderboard.send}
+          </button>
+        </div>
+      )}
+      {message?.board === board && <p className="mt-2 text-gray-700">{message.text}</p>}
+    </details>
+  );
+}
@@ -0,0 +1,26 @@
+// timer.ts
+// Cronómetro de partida compartido por los juegos: cuenta segundos mientras `running` sea true.
+// El valor lo guarda cada página junto a su partida, así que aquí solo se cuenta.
+
+import { useEffect, useState } from "react";
+
+export function useElapsed(initial: number, running: boolean) {
+  const [elapsed, setElapsed] = useState(initial);
+
+  useEffect(() => {
+    if (!running) return;
+    const id = setInterval(() => setElapsed((s) => s + 1), 1000);
+    return () => clearInterval(id);
+  }, [running]);
+
+  return [elapsed, setElapsed] as const;
+}
+
+// 75 -> "1:15", 3725 -> "1:02:05"
+export function formatTime(seconds: number) {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
@@ -0,0 +1,9 @@
+import { pageMetadata } from "../componentes/idioma-servidor";
+
+export function generateMetadata() {
+  return pageMetadata("stats");
+}
+
+export default function EstadisticasLayout({ children }: { children: React.ReactNode }) {
+  return children;
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import React, { useSyncExternalStore } from "react";
+import { useI18n } from "../componentes/idioma-cliente";
+import { ACHIEVEMENTS, sokobanStats, stats2048, sudokuStats } from "../componentes/stats";
+import { loadSaved, STORAGE_KEY, subscribeSaved } from "../componentes/storage";
+import { formatTime } from "../componentes/timer";
+
+// Estadisticas.tsx
+// Resumen de lo jugado a partir de los eventos que guardan los juegos al terminar (componentes/stats.ts).
+// - Sudoku: resueltos por dificultad y mejor tiempo
+// - Sokoban: niveles completados con los menos movimientos y empujes conseguidos
+// - 2048: partidas, ficha más alta, mejor puntuación y reparto por ficha y por puntuación
+// - Logros desbloqueados (con fecha) y pendientes
+
+export default function Estadisticas() {
+  const { t } = useI18n();
+  // se lee con useSyncExternalStore para que el HTML del servidor (vacío) no choque al hidratar
+  const raw = useSyncExternalStore(subscribeSaved, () => localStorage.getItem(STORAGE_KEY), () => null);
+  const { stats } = loadSaved();
+  const events = raw === null ? [] : stats.events;
+  const achievements = raw === null ? {} : stats.achievements;
+
+  const sudoku = sudokuStats(events);
+  const sokoban = sokobanStats(events);
+  const g2048 = stats2048(events);
+  const maxTileGames = Math.max(1, ...g2048.tiles.map((tile) => tile.games));
+  const maxScoreGames = Math.max(1, ...g2048.scores.map((s) => s.games));
+
+  return (
+    <div className="p-4 max-w-2xl mx-auto">
+      <h2 className="text-2xl font-semibold mb-4">{t.stats.title}</h2>
+
+      <section className="mb-6">
+        <h3 className="text-lg font-semibold mb-2">Sudoku</h3>
+        <p className="text-sm mb-2">
+          {t.stats.solved}: <strong>{sudoku.solved}</strong>
+        </p>
+        <table className="text-sm border-collapse">
+          <thead>
+            <tr className="text-left text-gray-600">
+              <th className="pr-6">{t.stats.difficulty}</th>
+              <th className="pr-6">{t.stats.solved}</th>
+              <th>{t.stats.bestTime}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sudoku.byDifficulty.map((d) => (
+              <tr key={d.difficulty}>
+                <td className="pr-6">{t.sudoku.difficulties[d.difficulty]}</td>
+                <td className="pr-6">{d.solved}</td>
+                <td>{d.bestTime === null ? "—" : formatTime(d.bestTime)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="mb-6">
+        <h3 className="text-lg font-semibold mb-2">Sokoban</h3>
+        <p className="text-sm mb-2">
+          {t.stats.levelsCompleted}: <strong>{sokoban.completed}</strong>
+        </p>
+        {sokoban.levels.length > 0 && (
+          <table className="text-sm border-collapse">
+            <thead>
+              <tr className="text-left text-gray-600">
+                <th className="pr-6">{t.stats.level}</th>
+                <th className="pr-6">{t.stats.times}</th>
+                <th className="pr-6">{t.stats.minMoves}</th>
+                <th>{t.stats.minPushes}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sokoban.levels.map((l) => (
+                <tr key={l.key}>
+                  <td className="pr-6">
+                    {l.pack} — {l.title}
+                  </td>
+                  <td className="pr-6">{l.times}</td>
+                  <td className="pr-6">{l.moves}</td>
+                  <td>{l.pushes}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="mb-6">
+        <h3 className="text-lg font-semibold mb-2">2048</h3>
+        <p className="text-sm mb-2">
+          {t.stats.games}: <strong>{g2048.played}</strong> · {t.stats.highestTile}: <strong>{g2048.highestTile}</strong> ·{" "}
+          {t.stats.bestScore}: <strong>{g2048.bestScore}</strong> · {t.stats.average}: <strong>{g2048.averageScore}</strong>
+        </p>
+        {g2048.played > 0 && (
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <div className="text-gray-600 mb-1">{t.stats.highestTile}</div>
+              {g2048.tiles.map((tile) => (
+                <div key={tile.tile} className="flex items-center gap-2">
+                  <span className="w-12 text-right">{tile.tile}</span>
+                  <div className="h-3 bg-orange-300 rounded" style={{ width: `${(tile.games / maxTileGames) * 100}%` }} />
+                  <span>{tile.games}</span>
+                </div>
+              ))}
+            </div>
+            <div>
+              <div className="text-gray-600 mb-1">{t.stats.score}</div>
+              {g2048.scores.map((s) => (
+                <div key={s.from} className="flex items-center gap-2">
+                  <span className="w-16 text-right">{s.from}+</span>
+                  <div className="h-3 bg-blue-300 rounded" style={{ width: `${(s.games / maxScoreGames) * 100}%` }} />
+                  <span>{s.games}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </section>
+
+      <section>
+        <h3 className="text-lg font-semibold mb-2">
+          {t.stats.achievements} ({Object.keys(achievements).length}/{ACHIEVEMENTS.length})
+        </h3>
+        <ul className="grid sm:grid-cols-2 gap-2">
+          {ACHIEVEMENTS.map((a) => {
+            const at = achievements[a.id];
+            return (
+              <li key={a.id} className={`p-2 border rounded text-sm ${at ? "bg-yellow-50" : "opacity-60"}`}>
+                <div className="font-medium">
+                  {at ? "🏆" : "🔒"} {t.achievements.list[a.id].title}
+                </div>
+                <div className="text-gray-600">{t.achievements.list[a.id].description}</div>
+                {at && <div className="text-xs text-gray-500">{new Date(at).toLocaleDateString()}</div>}
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { cookies } from "next/headers";
 import "./globals.css";
 import NavBar from "./componentes/navbar";
+import { NoticesProvider } from "./componentes/avisos";
+import { CONTRAST_COOKIE, HIGH_CONTRAST } from "./componentes/contraste";
+import { I18nProvider } from "./componentes/idioma-cliente";
+import { getLocale, getMessages } from "./componentes/idioma-servidor";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -13,23 +18,33 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
-};
+// cada página pone su título y aquí se le añade el nombre del sitio
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getMessages();
+  return {
+    title: { default: t.meta.site, template: `%s · ${t.meta.site}` },
+    description: t.meta.description,
+  };
+}
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getLocale();
+  const highContrast = (await cookies()).get(CONTRAST_COOKIE)?.value === HIGH_CONTRAST;
   return (
-    <html lang="en">
+    <html lang={locale} data-contraste={highContrast ? HIGH_CONTRAST : undefined}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <NavBar />
-        {children}
+        <I18nProvider locale={locale}>
+          <NoticesProvider>
+            <NavBar highContrast={highContrast} />
+            {children}
+          </NoticesProvider>
+        </I18nProvider>
       </body>
     </html>
   );
@@ -1,10 +1,13 @@
-export default function Home() {
+import GameGallery from "./componentes/galeria";
+import { getMessages } from "./componentes/idioma-servidor";
+
+export default async function Home() {
+  const t = await getMessages();
   return (
-    <div className="min-h-screen bg-white flex flex-col items-center justify-center text-center">
-      <h1 className="text-3xl font-bold text-blue-600">Bienvenido a los juegos</h1>
-      <p className="mt-4 text-gray-700">
-        Selecciona un juego en el menú superior para comenzar 🎮
-      </p>
+    <div className="min-h-screen bg-white flex flex-col items-center justify-center text-center p-4">
+      <h1 className="text-3xl font-bold text-blue-600">{t.home.welcome}</h1>
+      <p className="mt-4 text-gray-700">{t.home.pick}</p>
+      <GameGallery />
     </div>
   );
 }
@@ -0,0 +1,242 @@
+"use client";
+
+import React, { useState } from "react";
+import { useI18n } from "../componentes/idioma-cliente";
+import {
+  BadCharError,
+  type Cell,
+  emptyLevel,
+  findPlayer,
+  levelProblems,
+  levelToText,
+  parseLevel,
+  problemMessage,
+} from "./sokoban";
+
+// Editor de niveles de Sokoban.
+// - Pintar paredes, suelo, objetivos, cajas y jugador arrastrando sobre la cuadrícula
+// - Cambiar el tamaño (conserva lo dibujado), cargar un nivel en texto y exportarlo en ASCII
+// - Validación (un jugador, tantas cajas como objetivos, nivel cerrado) y comprobación de solución opcional
+// El tablero lo guarda la página para no perderlo al volver de una prueba.
+
+type Tool = "wall" | "floor" | "goal" | "box" | "player";
+
+const TOOLS: { id: Tool; symbol: string }[] = [
+  { id: "wall", symbol: "■" },
+  { id: "floor", symbol: "·" },
+  { id: "goal", symbol: "○" },
+  { id: "box", symbol: "⬛" },
+  { id: "player", symbol: "🙂" },
+];
+
+const MIN_SIZE = 3;
+const MAX_SIZE = 30;
+
+export type SolvableCheck = (board: Cell[][]) => Promise<boolean | null>; // null = no se pudo decidir
+
+function resize(board: Cell[][], width: number, height: number): Cell[][] {
+  return Array.from({ length: height }, (_, y) => Array.from({ length: width }, (_, x) => board[y]?.[x] ?? " "));
+}
+
+// Pinta con la herramienta respetando lo que ya hay: una caja o el jugador sobre un objetivo
+// lo conservan (* y +), y solo puede haber un jugador, así que ponerlo lo mueve.
+function paint(board: Cell[][], x: number, y: number, tool: Tool): Cell[][] {
+  const cell = board[y][x];
+  const onGoal = cell === "." || cell === "*" || cell === "+";
+  let value: Cell;
+  if (tool === "wall") value = "#";
+  else if (tool === "floor") value = " ";
+  else if (tool === "goal") value = cell === "$" ? "*" : cell === "@" ? "+" : ".";
+  else if (tool === "box") value = onGoal ? "*" : "$";
+  else value = onGoal ? "+" : "@";
+  if (value === cell) return board;
+
+  const next = board.map((row) => row.slice());
+  if (tool === "player") {
+    const p = findPlayer(next);
+    if (p) next[p[1]][p[0]] = next[p[1]][p[0]] === "+" ? "." : " ";
+  }
+  next[y][x] = value;
+  return next;
+}
+
+const LABELS: Record<Cell, string> = { "#": "■", " ": "", ".": "○", $: "⬛", "*": "⬜", "@": "🙂", "+": "😀" };
+
+export default function LevelEditor({
+  board,
+  onChange,
+  onPlayTest,
+  checkSolvable,
+}: {
+  board: Cell[][];
+  onChange: (board: Cell[][]) => void;
+  onPlayTest: (board: Cell[][]) => void;
+  checkSolvable?: SolvableCheck;
+}) {
+  const { t } = useI18n();
+  const [tool, setTool] = useState<Tool>("wall");
+  const [painting, setPainting] = useState(false);
+  const [text, setText] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const height = board.length;
+  const width = board[0]?.length ?? 0;
+  const problems = levelProblems(board, true);
+
+  function update(next: Cell[][]) {
+    if (next === board) return;
+    onChange(next);
+    setMessage(null);
+  }
+
+  function handleResize(w: number, h: number) {
+    if (Number.isNaN(w) || Number.isNaN(h)) return;
+    const clamp = (n: number) => Math.min(MAX_SIZE, Math.max(MIN_SIZE, n));
+    update(resize(board, clamp(w), clamp(h)));
+  }
+
+  function handleLoadText() {
+    try {
+      const parsed = parseLevel(text);
+      if (parsed.length < MIN_SIZE || parsed[0].length < MIN_SIZE) {
+        setMessage(t.editor.minSize(MIN_SIZE));
+        return;
+      }
+      update(resize(parsed, Math.min(MAX_SIZE, parsed[0].length), Math.min(MAX_SIZE, parsed.length)));
+    } catch (e) {
+      if (!(e instanceof BadCharError)) throw e;
+      setMessage(problemMessage({ code: "bad-char", char: e.char }, t));
+    }
+  }
+
+  function handleExport() {
+    setText(levelToText(board));
+    navigator.clipboard.writeText(levelToText(board)).then(
+      () => setMessage(t.editor.copied),
+      () => setMessage(null)
+    );
+  }
+
+  function handleCheckSolvable() {
+    if (!checkSolvable) return;
+    setChecking(true);
+    setMessage(t.editor.searching);
+    checkSolvable(board).then((solvable) => {
+      setChecking(false);
+      setMessage(solvable === null ? t.editor.undecided : solvable ? t.editor.solvable : t.editor.unsolvable);
+    });
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-2">
+        {TOOLS.map((item) => (
+          <button
+            key={item.id}
+            onClick={() => setTool(item.id)}
+            className={`px-3 py-2 border rounded ${tool === item.id ? "bg-yellow-100" : ""}`}
+            aria-pressed={tool === item.id}
+          >
+            {item.symbol} {t.editor.tools[item.id]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 mb-2 text-sm">
+        <label className="flex items-center gap-1">
+          {t.editor.width}
+          <input
+            type="number"
+            min={MIN_SIZE}
+            max={MAX_SIZE}
+            value={width}
+            onChange={(e) => handleResize(parseInt(e.target.value, 10), height)}
+            className="w-16 px-2 py-1 border rounded"
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          {t.editor.height}
+          <input
+            type="number"
+            min={MIN_SIZE}
+            max={MAX_SIZE}
+            value={height}
+            onChange={(e) => handleResize(width, parseInt(e.target.value, 10))}
+            className="w-16 px-2 py-1 border rounded"
+          />
+        </label>
+        <button onClick={() => update(emptyLevel(width, height))} className="px-3 py-1 border rounded">
+          {t.editor.clear}
+        </button>
+      </div>
+
+      <div
+        className="inline-block bg-gray-200 p-2 rounded select-none touch-none"
+        onPointerUp={() => setPainting(false)}
+        onPointerLeave={() => setPainting(false)}
+      >
+        {board.map((row, y) => (
+          <div key={y} className="flex">
+            {row.map((cell, x) => (
+              <div
+                key={`${x}-${y}`}
+                className="w-8 h-8 flex items-center justify-center border border-gray-300 bg-white cursor-pointer"
+                onPointerDown={(e) => {
+                  e.preventDefault();
+                  // en táctil el puntero queda capturado por la primera celda y no llegan los pointerenter
+                  e.currentTarget.releasePointerCapture(e.pointerId);
+                  setPainting(true);
+                  update(paint(board, x, y, tool));
+                }}
+                onPointerEnter={() => painting && update(paint(board, x, y, tool))}
+              >
+                {LABELS[cell]}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {problems.length > 0 ? (
+        <ul className="mt-2 text-sm text-red-600 list-disc pl-5">
+          {problems.map((p) => (
+            <li key={p.code}>{problemMessage(p, t)}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-2 text-sm text-green-600">{t.editor.valid}</p>
+      )}
+
+      <div className="flex flex-wrap gap-2 mt-2">
+        <button onClick={() => onPlayTest(board)} className="px-3 py-2 border rounded" disabled={problems.length > 0}>
+          {t.editor.test}
+        </button>
+        {checkSolvable && (
+          <button
+            onClick={handleCheckSolvable}
+            className="px-3 py-2 border rounded"
+            disabled={problems.length > 0 || checking}
+          >
+            {t.editor.checkSolvable}
+          </button>
+        )}
+        <button onClick={handleExport} className="px-3 py-2 border rounded">
+          {t.editor.export}
+        </button>
+        <button onClick={handleLoadText} className="px-3 py-2 border rounded">
+          {t.editor.loadText}
+        </button>
+      </div>
+      {message && <p className="mt-2 text-sm text-gray-700">{message}</p>}
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={8}
+        className="w-full mt-2 p-2 border rounded font-mono text-xs"
+        placeholder={t.editor.placeholder}
+      />
+    </div>
+  );
+}
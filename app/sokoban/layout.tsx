@@ -0,0 +1,9 @@
+import { gameMetadata } from "../componentes/idioma-servidor";
+
+export function generateMetadata() {
+  return gameMetadata("sokoban");
+}
+
+export default function SokobanLayout({ children }: { children: React.ReactNode }) {
+  return children;
+}
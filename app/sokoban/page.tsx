@@ -0,0 +1,890 @@
+"use client";
+
+import React, { useEffect, useEffectEvent, useRef, useState } from "react";
+import { useNotices } from "../componentes/avisos";
+import { boardSokoban, type Entry } from "../componentes/clasificacion";
+import { type DailyResult, dailyResults, dailySeed, dayKey, recordDaily } from "../componentes/daily";
+import DailyPanel from "../componentes/reto";
+import { useHydrated } from "../componentes/hidratado";
+import ResultOverlay from "../componentes/resultado";
+import LeaderboardPanel from "../componentes/tabla-clasificacion";
+import { loadSaved, saveGame, type SokobanLevelRef } from "../componentes/storage";
+import type { Messages } from "../componentes/idioma";
+import { useI18n } from "../componentes/idioma-cliente";
+import { recordEvent, unlockedMessage } from "../componentes/stats";
+import { formatTime, useElapsed } from "../componentes/timer";
+import {
+  applyMove,
+  boxesOnGoals,
+  BUNDLED_PACKS,
+  type Cell,
+  cloneBoard,
+  countPushes,
+  deadSquares,
+  type Direction,
+  emptyLevel,
+  findDeadlocks,
+  findPlayer,
+  interiorOf,
+  isWin,
+  type Level,
+  levelKey,
+  type LevelPack,
+  levelTitle,
+  MOVES,
+  packErrorMessage,
+  type PackResult,
+  packWarningMessage,
+  parsePack,
+  pushPath,
+  replayLurd,
+  walkPath,
+} from "./sokoban";
+import type { SolveResult } from "./solver";
+import type { SolverJob, SolverReply } from "./worker";
+import LevelEditor, { type SolvableCheck } from "./editor";
+import LevelThumbnail from "./thumbnail";
+
+// Sokoban.tsx
+// Componente React (TypeScript) sencillo y autocontenido para jugar Sokoban.
+// - Colecciones de niveles en formato XSB/.sok (incluidas en public/sokoban o subidas por el jugador)
+// - Selector de niveles con miniatura y marca de completado
+// - Editor de niveles con validación y prueba inmediata
+// - Solver en un Web Worker: solución animada (pausa / paso a paso) o pista con el siguiente empuje
+// - Movimiento con flechas / WASD, clic en una casilla para ir andando y arrastrar una caja
+//   hasta otra casilla para empujarla allí (animado y registrado como movimientos normales)
+// - Movimientos registrados en LURD (minúscula = paso, mayúscula = empuje), con contadores,
+//   Undo/Redo a partir de esa lista, mejor solución por nivel y reproducción de una cadena pegada
+// - Botones: Reiniciar, Deshacer, Rehacer, Siguiente nivel
+// - Detección de victoria (todas las cajas en objetivos) y de bloqueo: cajas en casillas muertas o
+//   congeladas fuera de objetivo; asistente opcional que impide los empujes que bloquean
+// - Se guardan (componentes/storage.ts) el último nivel abierto, la partida a medias con su tiempo,
+//   los niveles completados y las mejores soluciones
+// - Reto diario: un nivel de las colecciones incluidas elegido a partir de la fecha
+// - Clasificación por nivel de las colecciones incluidas: al completarlo se envía la solución LURD y el
+//   servidor la comprueba
+// - Tablero como rejilla ARIA con el contenido de cada casilla y una región viva que anuncia los pasos,
+//   empujes, bloqueos y la victoria
+
+// milisegundos entre movimientos al reproducir una solución
+const PLAYBACK_DELAY = 150;
+const WALK_DELAY = 60;
+
+// resultado de una entrada de la clasificación
+function formatEntry(e: Entry, t: Messages) {
+  return t.sokoban.movesAndPushes(e.primary, e.secondary);
+}
+
+// posición [colección, nivel] de un nivel guardado; se busca por título y clave por si la colección cambió
+function findLevel(list: LevelPack[], ref: SokobanLevelRef): [number, number] | null {
+  const p = list.findIndex((pk) => pk.title === ref.pack);
+  if (p < 0) return null;
+  const levels = list[p].levels;
+  if (levelKey(levels[ref.index]?.board ?? []) === ref.key) return [p, ref.index];
+  const l = levels.findIndex((lv) => levelKey(lv.board) === ref.key);
+  return l < 0 ? null : [p, l];
+}
+
+const KEYS: Record<string, Direction> = {
+  ArrowUp: "u",
+  w: "u",
+  ArrowDown: "d",
+  s: "d",
+  ArrowLeft: "l",
+  a: "l",
+  ArrowRight: "r",
+  d: "r",
+};
+
+// lo guardado se lee al montar el juego, que solo se monta en el navegador ya hidratado
+export default function SokobanPage() {
+  return useHydrated() ? <Sokoban /> : null;
+}
+
+function Sokoban() {
+  const { t } = useI18n();
+  const { notify, confirm } = useNotices();
+  // colecciones cargadas (las incluidas y las que sube el jugador) y nivel actual dentro de ellas
+  const [packs, setPacks] = useState<LevelPack[]>([]);
+  // las primeras `bundledCount` colecciones son las incluidas (las subidas van detrás)
+  const [bundledCount, setBundledCount] = useState(0);
+  const [packIndex, setPackIndex] = useState(0);
+  const [levelIndex, setLevelIndex] = useState(0);
+  const [board, setBoard] = useState<Cell[][]>([]);
+  // movimientos hechos desde el inicio del nivel y los deshechos que se pueden rehacer (el primero, el siguiente)
+  const [moves, setMoves] = useState("");
+  const [redo, setRedo] = useState("");
+  const [won, setWon] = useState(false);
+  // casillas muertas del nivel actual (se calculan al cargarlo) y asistente anti-bloqueo
+  const [dead, setDead] = useState<boolean[][]>([]);
+  const [preventDeadlocks, setPreventDeadlocks] = useState(false);
+  const [deadlockMessage, setDeadlockMessage] = useState<string | null>(null);
+  // lo guardado de la visita anterior; niveles completados (claves de levelKey) y mejor solución en LURD de cada uno
+  const [saved] = useState(() => loadSaved().sokoban);
+  const [completed, setCompleted] = useState<Set<string>>(() => new Set(saved.completed));
+  const [best, setBest] = useState<Record<string, string>>(saved.best);
+  const [lurdText, setLurdText] = useState("");
+  const [lurdMessage, setLurdMessage] = useState<string | null>(null);
+  const [showPicker, setShowPicker] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  // día del reto diario si el nivel abierto es ese reto, y su resultado guardado
+  const [daily, setDaily] = useState<string | null>(null);
+  const [dailyResult, setDailyResult] = useState<DailyResult | null>(null);
+  // editor: su tablero vive aquí para conservarlo al volver de una prueba
+  const [editing, setEditing] = useState(false);
+  const [editorBoard, setEditorBoard] = useState<Cell[][]>(() => emptyLevel(8, 7));
+  const [testing, setTesting] = useState(false);
+  // solver: búsqueda en curso, solución que se está reproduciendo y pista del siguiente empuje
+  const [solving, setSolving] = useState(false);
+  // movimientos que se están reproduciendo; walk = caminos de clic/arrastre (sin controles de reproducción)
+  const [solution, setSolution] = useState<{ lurd: string; step: number; walk?: boolean } | null>(null);
+  const [playing, setPlaying] = useState(false);
+  // se ha reproducido una solución (del solver o pegada) en este intento: la victoria no cuenta como del jugador
+  const [assisted, setAssisted] = useState(false);
+  // arrastre en curso (casilla donde empezó) y casilla inalcanzable que se marca un momento
+  const [dragFrom, setDragFrom] = useState<[number, number] | null>(null);
+  const [rejected, setRejected] = useState<[number, number] | null>(null);
+  const [hint, setHint] = useState<{ box: [number, number]; target: [number, number] } | null>(null);
+  const [solverMessage, setSolverMessage] = useState<string | null>(null);
+  // texto para lectores de pantalla tras cada movimiento
+  const [announcement, setAnnouncement] = useState("");
+  const workerRef = useRef<Worker | null>(null);
+  // la victoria de este intento ya se ha registrado (deshacer y rehacer hasta ella no la repite)
+  const recorded = useRef(false);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const [elapsed, setElapsed] = useElapsed(0, moves.length > 0 && !won);
+
+  const pack = packs[packIndex];
+  const level: Level | undefined = testing
+    ? { title: t.sokoban.editorTest, comments: [], board: editorBoard }
+    : pack?.levels[levelIndex];
+  // cajas que ya no pueden llegar a un objetivo: el nivel está perdido hasta deshacer o reiniciar
+  const deadlocked = findDeadlocks(board, dead);
+  const lost = !won && deadlocked.length > 0;
+  const bestLurd = level && !testing ? best[levelKey(level.board)] : undefined;
+
+  // el nivel abierto y la partida a medias (empezada y sin completar) se guardan en cada cambio
+  useEffect(() => {
+    const start = pack?.levels[levelIndex];
+    if (!start || testing) return;
+    const ref = { pack: pack.title, index: levelIndex, key: levelKey(start.board) };
+    saveGame("sokoban", {
+      level: ref,
+      current:
+        moves.length > 0 && !won
+          ? { level: ref, moves, redo, elapsed, daily: daily ?? undefined, assisted: assisted || undefined }
+          : null,
+    });
+  }, [pack, testing, levelIndex, moves, redo, won, elapsed, daily, assisted]);
+
+  // lanza una búsqueda en un worker nuevo; si había otra en curso se descarta
+  function runSolver(b: Cell[][], onResult: (result: SolveResult) => void) {
+    cancelSolver();
+    const worker = new Worker(new URL("./worker.ts", import.meta.url));
+    workerRef.current = worker;
+    setSolving(true);
+    worker.onmessage = (e: MessageEvent<SolverReply>) => {
+      worker.terminate();
+      workerRef.current = null;
+      setSolving(false);
+      onResult(e.data.result);
+    };
+    worker.onerror = () => {
+      worker.terminate();
+      workerRef.current = null;
+      setSolving(false);
+      setSolverMessage(t.sokoban.solverFailed);
+    };
+    const job: SolverJob = { type: "solve", board: b };
+    worker.postMessage(job);
+  }
+
+  function cancelSolver() {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setSolving(false);
+  }
+
+  // cualquier cambio que no venga de la reproducción invalida la solución y la pista
+  function clearSolver() {
+    cancelSolver();
+    setSolution(null);
+    setPlaying(false);
+    setHint(null);
+    setSolverMessage(null);
+  }
+
+  function limitMessage(result: SolveResult) {
+    if (result.status === "unsolvable") return t.sokoban.unsolvable;
+    if (result.status === "limit") return t.sokoban.limit(result.explored.toLocaleString());
+    return null;
+  }
+
+  function handleSolve() {
+    clearSolver();
+    runSolver(board, (result) => {
+      if (result.status !== "solved") {
+        setSolverMessage(limitMessage(result));
+        return;
+      }
+      setSolution({ lurd: result.lurd, step: 0 });
+      setPlaying(true);
+      setSolverMessage(t.sokoban.solution(result.lurd.length, result.pushes));
+    });
+  }
+
+  function handleHint() {
+    clearSolver();
+    runSolver(board, (result) => {
+      if (result.status !== "solved") {
+        setSolverMessage(limitMessage(result));
+        return;
+      }
+      // caminar hasta el primer empuje: la caja está delante del jugador en esa dirección
+      const p = findPlayer(board);
+      if (!p) return;
+      let [x, y] = p;
+      for (const ch of result.lurd) {
+        const [dx, dy] = MOVES[ch.toLowerCase() as Direction];
+        if (ch !== ch.toLowerCase()) {
+          setHint({ box: [x + dx, y + dy], target: [x + 2 * dx, y + 2 * dy] });
+          setSolverMessage(t.sokoban.hintPush(t.sokoban.directions[ch.toLowerCase() as Direction]));
+          return;
+        }
+        x += dx;
+        y += dy;
+      }
+    });
+  }
+
+  function startLevel(p: number, l: number, list = packs) {
+    setPackIndex(p);
+    setLevelIndex(l);
+    setBoard(cloneBoard(list[p].levels[l].board));
+    setDead(deadSquares(list[p].levels[l].board));
+    setMoves("");
+    setRedo("");
+    setWon(false);
+    setElapsed(0);
+    setAnnouncement("");
+    setDaily(null);
+    setAssisted(false);
+    recorded.current = false;
+    setShowPicker(false);
+    setEditing(false);
+    setTesting(false);
+    clearSolver();
+  }
+
+  // al llegar las colecciones incluidas se vuelve al último nivel y, si había una partida a medias en él,
+  // a sus movimientos
+  const onPacksLoaded = useEffectEvent((results: PackResult[]) => {
+    const loaded = results.flatMap((r) => (r.ok ? [r.pack] : []));
+    setPacks(loaded);
+    setBundledCount(loaded.length);
+    if (loaded.length === 0) {
+      setMessage(t.sokoban.packsUnreadable);
+      return;
+    }
+    const ref = saved.current?.level ?? saved.level;
+    const found = ref ? findLevel(loaded, ref) : null;
+    const [p, l] = found ?? [0, 0];
+    startLevel(p, l, loaded);
+    if (found && saved.current) {
+      const replay = replayLurd(loaded[p].levels[l].board, saved.current.moves);
+      if (replay.error === null) {
+        setBoard(replay.board);
+        setMoves(saved.current.moves);
+        setRedo(saved.current.redo);
+        setElapsed(saved.current.elapsed);
+        setAssisted(saved.current.assisted ?? false);
+        if (saved.current.daily) {
+          setDaily(saved.current.daily);
+          setDailyResult(dailyResults("sokoban")[saved.current.daily] ?? null);
+        }
+      }
+    }
+  });
+  const onPacksFailed = useEffectEvent(() => setMessage(t.sokoban.packsFailed));
+
+  // solo al montar: las colecciones incluidas no cambian
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(
+      BUNDLED_PACKS.map((url) =>
+        fetch(url)
+          .then((res) => (res.ok ? res.text() : Promise.reject(new Error(res.statusText))))
+          .then((text) => parsePack(text, url.slice(url.lastIndexOf("/") + 1)))
+      )
+    ).then(
+      (results) => !cancelled && onPacksLoaded(results),
+      () => !cancelled && onPacksFailed()
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  function playTest(b: Cell[][]) {
+    setBoard(cloneBoard(b));
+    setDead(deadSquares(b));
+    setMoves("");
+    setRedo("");
+    setWon(false);
+    setElapsed(0);
+    setAnnouncement("");
+    setDaily(null);
+    setAssisted(false);
+    recorded.current = false;
+    setEditing(false);
+    setTesting(true);
+    clearSolver();
+  }
+
+  function openEditor(from?: Cell[][]) {
+    if (from) setEditorBoard(cloneBoard(from));
+    setEditing(true);
+    setShowPicker(false);
+  }
+
+  // victoria: marcar el nivel y guardar la solución si mejora la anterior (menos movimientos y, a igualdad, menos empujes).
+  // helped: la ha jugado el solver; no va a las estadísticas ni al reto ni marca el nivel
+  function recordWin(lurd: string, helped: boolean) {
+    if (!pack || !level || testing || recorded.current) return;
+    recorded.current = true;
+    if (helped) return;
+    if (daily) {
+      setDailyResult(
+        recordDaily("sokoban", daily, t.sokoban.dailyResult(lurd.length, countPushes(lurd), formatTime(elapsed)))
+      );
+    }
+    const key = levelKey(level.board);
+    const unlocked = recordEvent({
+      game: "sokoban",
+      type: "completed",
+      key,
+      pack: pack.title,
+      title: levelTitle(level, levelIndex, t),
+      moves: lurd.length,
+      pushes: countPushes(lurd),
+      elapsed,
+    });
+    const achievements = unlockedMessage(unlocked, t);
+    if (achievements) notify(achievements, "success");
+    const nextCompleted = new Set(completed).add(key);
+    setCompleted(nextCompleted);
+    saveGame("sokoban", { completed: Array.from(nextCompleted) });
+    const prev = best[key];
+    if (!prev || lurd.length < prev.length || (lurd.length === prev.length && countPushes(lurd) < countPushes(prev))) {
+      const nextBest = { ...best, [key]: lurd };
+      setBest(nextBest);
+      saveGame("sokoban", { best: nextBest });
+    }
+  }
+
+  function move(dir: Direction, helped = assisted) {
+    if (won || lost) return;
+    const result = applyMove(board, dir);
+    const direction = t.sokoban.directions[dir];
+    if (!result) {
+      setAnnouncement(t.sokoban.blocked(direction));
+      return;
+    }
+    const stuck = findDeadlocks(result.board, dead).length > 0;
+    if (preventDeadlocks && result.letter !== dir && stuck) {
+      setDeadlockMessage(t.sokoban.deadlockPrevented);
+      setAnnouncement(t.sokoban.deadlockPrevented);
+      return;
+    }
+    const nextMoves = moves + result.letter;
+    setBoard(result.board);
+    setMoves(nextMoves);
+    // repetir el siguiente movimiento deshecho conserva el resto de la lista de rehacer
+    setRedo(redo[0] === result.letter ? redo.slice(1) : "");
+    setDeadlockMessage(null);
+    const win = isWin(result.board);
+    setWon(win);
+    if (win) recordWin(nextMoves, helped);
+    const { placed, total } = boxesOnGoals(result.board);
+    setAnnouncement(
+      win
+        ? t.sokoban.won
+        : stuck
+          ? `${t.sokoban.lostTitle}. ${t.sokoban.lost}`
+          : result.letter !== dir
+            ? t.sokoban.announcePush(direction, placed, total, nextMoves.length)
+            : t.sokoban.announceStep(direction, nextMoves.length)
+    );
+  }
+
+  function playbackStep() {
+    if (!solution) return;
+    // los caminos de clic/arrastre los decide el jugador; una solución reproducida no
+    const helped = assisted || !solution.walk;
+    setAssisted(helped);
+    move(solution.lurd[solution.step].toLowerCase() as Direction, helped);
+    const step = solution.step + 1;
+    setSolution({ ...solution, step });
+    if (step >= solution.lurd.length) setPlaying(false);
+  }
+
+  useEffect(() => {
+    if (!playing) return;
+    const id = setTimeout(playbackStep, solution?.walk ? WALK_DELAY : PLAYBACK_DELAY);
+    return () => clearTimeout(id);
+  });
+
+  // Undo/Redo y los clics en la lista: se reproduce desde el inicio del nivel hasta el movimiento k
+  function jumpTo(k: number) {
+    const all = moves + redo;
+    if (!level || k < 0 || k > all.length) return;
+    clearSolver();
+    const replay = replayLurd(level.board, all.slice(0, k));
+    setBoard(replay.board);
+    setMoves(all.slice(0, k));
+    setRedo(all.slice(k));
+    setDeadlockMessage(null);
+    setAnnouncement(t.sokoban.announceJump(k, all.length));
+    const win = isWin(replay.board);
+    setWon(win);
+    if (win) recordWin(all.slice(0, k), assisted);
+  }
+
+  // reproducir una cadena LURD (pegada o la mejor guardada) desde el inicio del nivel
+  function startReplay(text: string) {
+    if (!level) return;
+    const lurd = text.replace(/\s/g, "");
+    if (lurd === "") {
+      setLurdMessage(t.sokoban.nothingToReplay);
+      return;
+    }
+    const check = replayLurd(level.board, lurd);
+    if (check.error !== null) {
+      setLurdMessage(t.sokoban.invalidMove(check.error + 1, lurd[check.error]));
+      return;
+    }
+    if (testing) playTest(level.board);
+    else {
+      // startLevel sale del reto diario; repetir movimientos en él no lo abandona
+      startLevel(packIndex, levelIndex);
+      setDaily(daily);
+    }
+    setSolution({ lurd: check.lurd, step: 0 });
+    setPlaying(true);
+    setLurdMessage(isWin(check.board) ? null : t.sokoban.replayIncomplete);
+  }
+
+  // ratón / táctil: pulsar y soltar en la misma casilla anda hasta ella;
+  // arrastrar desde una caja la empuja hasta la casilla donde se suelta
+  function handlePointerDown(x: number, y: number, e: React.PointerEvent<HTMLDivElement>) {
+    // en táctil el puntero queda capturado por la primera celda y el pointerup no llegaría a la de destino
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    setDragFrom([x, y]);
+  }
+
+  function handlePointerUp(x: number, y: number) {
+    const from = dragFrom;
+    setDragFrom(null);
+    if (!from || won || lost) return;
+    const cell = board[from[1]][from[0]];
+    const dragging = cell === "$" || cell === "*";
+    if (from[0] === x && from[1] === y && (dragging || cell === "@" || cell === "+")) return;
+    const path = dragging ? pushPath(board, from, [x, y]) : walkPath(board, [x, y]);
+    if (!path) {
+      setRejected([x, y]);
+      setTimeout(() => setRejected(null), 600);
+      return;
+    }
+    clearSolver();
+    setSolution({ lurd: path, step: 0, walk: true });
+    setPlaying(true);
+  }
+
+  // movimiento del jugador (teclado o botones): detiene la reproducción de una solución
+  function playerMove(dir: Direction) {
+    clearSolver();
+    move(dir);
+  }
+
+  // se vuelve a registrar en cada render para que move() vea el tablero actual
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      // que escribir en un campo de texto no mueva al jugador
+      if (e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLInputElement) return;
+      const dir = KEYS[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+      if (dir) playerMove(dir);
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
+  // reiniciar con movimientos hechos se confirma antes
+  function handleReset() {
+    if (moves.length === 0 || won) resetLevel();
+    else confirm(t.sokoban.confirmReset, t.sokoban.reset).then((ok) => ok && resetLevel());
+  }
+
+  function resetLevel() {
+    if (testing) playTest(editorBoard);
+    else if (pack) {
+      // reiniciar el reto diario sigue siendo el reto
+      const day = daily;
+      startLevel(packIndex, levelIndex);
+      setDaily(day);
+    }
+  }
+
+  // nivel del día: posición en la lista de todos los niveles de las colecciones incluidas
+  function startDaily() {
+    const day = dayKey();
+    const all = packs.slice(0, bundledCount).flatMap((p, i) => p.levels.map((_, l) => [i, l]));
+    if (all.length === 0) return;
+    const [p, l] = all[dailySeed("sokoban", day) % all.length];
+    startLevel(p, l);
+    setDaily(day);
+    setDailyResult(dailyResults("sokoban")[day] ?? null);
+  }
+
+  function nextLevel() {
+    if (pack) startLevel(packIndex, (levelIndex + 1) % pack.levels.length);
+  }
+
+  const checkSolvable: SolvableCheck = (b) =>
+    new Promise((resolve) =>
+      runSolver(b, (result) => resolve(result.status === "solved" ? true : result.status === "unsolvable" ? false : null))
+    );
+
+  function handleUpload(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    file.text().then(
+      (text) => {
+        const result = parsePack(text, file.name.replace(/\.\w+$/, ""));
+        if (!result.ok) {
+          setMessage(`${file.name}: ${packErrorMessage(result.warnings, t)}`);
+          return;
+        }
+        const next = [...packs, result.pack];
+        setPacks(next);
+        setPackIndex(next.length - 1);
+        setShowPicker(true);
+        setMessage(
+          result.warnings.length > 0
+            ? t.sokoban.loadedWithWarnings(
+                result.pack.levels.length,
+                result.warnings.map((w) => packWarningMessage(w, t)).join(" ")
+              )
+            : t.sokoban.loaded(result.pack.levels.length, result.pack.title)
+        );
+      },
+      () => setMessage(t.sokoban.fileUnreadable(file.name))
+    );
+  }
+
+  const inside = interiorOf(board);
+
+  // render
+  return (
+    <div className="p-4 max-w-md mx-auto">
+      <h2 className="text-xl font-semibold mb-3">Sokoban (TSX)</h2>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <button
+          onClick={() => {
+            setShowPicker((v) => !v);
+            setEditing(false);
+          }}
+          className="px-3 py-2 border rounded"
+          disabled={!pack}
+        >
+          {showPicker ? t.sokoban.backToLevel : t.sokoban.pickLevel}
+        </button>
+        <button
+          onClick={() => (editing ? setEditing(false) : openEditor())}
+          className={`px-3 py-2 border rounded ${editing ? "bg-yellow-100" : ""}`}
+          aria-pressed={editing}
+        >
+          {t.sokoban.editor}
+        </button>
+        <button onClick={startDaily} className="px-3 py-2 border rounded" disabled={bundledCount === 0}>
+          {t.daily.button}
+        </button>
+        <label className="px-3 py-2 border rounded cursor-pointer">
+          {t.sokoban.uploadPack}
+          <input type="file" accept=".sok,.xsb,.txt" onChange={handleUpload} className="hidden" />
+        </label>
+      </div>
+      {message && <p className="mb-3 text-sm text-gray-700">{message}</p>}
+
+      {!pack && !message && <p className="text-sm text-gray-600">{t.sokoban.loadingLevels}</p>}
+
+      {editing && (
+        <LevelEditor board={editorBoard} onChange={setEditorBoard} onPlayTest={playTest} checkSolvable={checkSolvable} />
+      )}
+
+      {pack && showPicker && !editing && (
+        <div>
+          <select
+            value={packIndex}
+            onChange={(e) => setPackIndex(parseInt(e.target.value, 10))}
+            className="px-2 py-2 border rounded mb-2"
+            aria-label={t.sokoban.pack}
+          >
+            {packs.map((p, i) => (
+              <option key={i} value={i}>
+                {p.title} ({p.levels.length})
+              </option>
+            ))}
+          </select>
+          {(pack.author || pack.comments.length > 0) && (
+            <p className="mb-2 text-sm text-gray-600">
+              {pack.author && <>{t.sokoban.author(pack.author)} </>}
+              {pack.comments.join(" ")}
+            </p>
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            {pack.levels.map((l, i) => {
+              const done = completed.has(levelKey(l.board));
+              return (
+                <button
+                  key={i}
+                  onClick={() => startLevel(packIndex, i)}
+                  className={`p-2 border rounded flex flex-col items-center gap-1 text-sm ${done ? "border-green-500" : ""}`}
+                >
+                  <LevelThumbnail board={l.board} />
+                  <span>
+                    {i + 1}. {levelTitle(l, i, t)}
+                  </span>
+                  {done && <span className="text-green-600">✓ {t.sokoban.completed}</span>}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {level && !showPicker && !editing && (
+        <>
+          {testing ? (
+            <p className="mb-2 text-sm text-gray-700">
+              <strong>{level.title}</strong>
+            </p>
+          ) : (
+            <p className="mb-2 text-sm text-gray-700">
+              {pack.title} — {levelIndex + 1}/{pack.levels.length}: <strong>{levelTitle(level, levelIndex, t)}</strong>
+              {level.author && <> ({level.author})</>}
+              {completed.has(levelKey(level.board)) && <span className="text-green-600"> ✓</span>}
+            </p>
+          )}
+          {level.comments.length > 0 && <p className="mb-2 text-xs text-gray-500">{level.comments.join(" ")}</p>}
+          {daily && !testing && <DailyPanel game="sokoban" day={daily} result={dailyResult} />}
+          <p className="mb-2 text-sm">
+            {t.sokoban.moves}: <strong>{moves.length}</strong> · {t.sokoban.pushes}: <strong>{countPushes(moves)}</strong> ·{" "}
+            {t.sokoban.time}:{" "}
+            <strong>{formatTime(elapsed)}</strong>
+            {bestLurd && (
+              <span className="text-gray-600">
+                {" "}
+                {t.sokoban.best(bestLurd.length, countPushes(bestLurd))}
+              </span>
+            )}
+          </p>
+
+          <div className="relative inline-block">
+            <div
+              role="grid"
+              aria-label={t.sokoban.board}
+              className="inline-block bg-gray-200 p-2 rounded select-none touch-none"
+              onPointerLeave={() => setDragFrom(null)}
+            >
+              {board.map((row, y) => (
+                <div key={y} role="row" className="flex">
+                  {row.map((cell, x) => {
+                    const key = `${x}-${y}`;
+                    const size = "w-10 h-10 flex items-center justify-center border";
+                    let label = "";
+                    if (cell === "#") label = "■";
+                    if (cell === " ") label = "";
+                    if (cell === ".") label = "○";
+                    if (cell === "$") label = "⬛";
+                    if (cell === "*") label = "⬜";
+                    if (cell === "@") label = "🙂";
+                    if (cell === "+") label = "😀";
+                    // el exterior del nivel no se dibuja como suelo
+                    const outside = cell !== "#" && !inside[y][x];
+                    const isDeadlocked = deadlocked.some(([bx, by]) => bx === x && by === y);
+                    const isHintBox = hint?.box[0] === x && hint.box[1] === y;
+                    const isHintTarget = hint?.target[0] === x && hint.target[1] === y;
+                    const state = [
+                      t.sokoban.cells[cell],
+                      isDeadlocked ? t.sokoban.deadlocked : null,
+                      isHintBox ? t.sokoban.hintBox : isHintTarget ? t.sokoban.hintTarget : null,
+                    ]
+                      .filter((part) => part !== null)
+                      .join(", ");
+                    // en alto contraste las marcas no dependen del color: bloqueo con borde discontinuo,
+                    // caja de la pista con borde doble y destino con borde punteado
+                    const contrast = isDeadlocked
+                      ? "contraste:outline-dashed contraste:outline-2 contraste:-outline-offset-4 contraste:outline-black"
+                      : isHintBox
+                        ? "contraste:outline-double contraste:outline-4 contraste:-outline-offset-4 contraste:outline-black"
+                        : isHintTarget
+                          ? "contraste:outline-dotted contraste:outline-2 contraste:-outline-offset-4 contraste:outline-black"
+                          : "";
+                    // cajas bloqueadas; pista: la caja que hay que empujar y hacia dónde;
+                    // con el asistente activo también se sombrean las casillas muertas
+                    const highlight =
+                      rejected?.[0] === x && rejected[1] === y
+                        ? "bg-red-300"
+                        : dragFrom?.[0] === x && dragFrom[1] === y
+                          ? "bg-blue-200"
+                          : isDeadlocked
+                            ? "bg-red-200"
+                            : isHintBox
+                              ? "bg-yellow-200"
+                              : isHintTarget
+                                ? "bg-green-200"
+                                : preventDeadlocks && dead[y]?.[x]
+                                  ? "bg-gray-300"
+                                  : "";
+                    return (
+                      <div
+                        key={key}
+                        role="gridcell"
+                        aria-label={outside ? undefined : t.sokoban.cell(y + 1, x + 1, state)}
+                        className={`${size} text-lg cursor-pointer ${outside ? "border-transparent" : ""} ${highlight} ${contrast}`}
+                        onPointerDown={(e) => handlePointerDown(x, y, e)}
+                        onPointerUp={() => handlePointerUp(x, y)}
+                      >
+                        <span aria-hidden>{label}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+            {won && (
+              <ResultOverlay
+                outcome="won"
+                title={t.sokoban.won}
+                detail={`${t.sokoban.movesAndPushes(moves.length, countPushes(moves))} · ${formatTime(elapsed)}`}
+              >
+                {testing ? (
+                  <button onClick={() => openEditor()} className="px-3 py-2 border rounded bg-white">{t.sokoban.backToEditor}</button>
+                ) : (
+                  <button onClick={nextLevel} className="px-3 py-2 border rounded bg-white">{t.sokoban.nextLevel}</button>
+                )}
+              </ResultOverlay>
+            )}
+            {lost && (
+              <ResultOverlay outcome="lost" title={t.sokoban.lostTitle} detail={t.sokoban.lost}>
+                <button onClick={() => jumpTo(moves.length - 1)} className="px-3 py-2 border rounded bg-white">{t.sokoban.undo}</button>
+                <button onClick={handleReset} className="px-3 py-2 border rounded bg-white">{t.sokoban.reset}</button>
+              </ResultOverlay>
+            )}
+          </div>
+
+          <div className="flex gap-2 mt-3">
+            <button onClick={() => playerMove("u")} className="px-3 py-2 border rounded">{t.sokoban.up}</button>
+            <button onClick={() => playerMove("l")} className="px-3 py-2 border rounded">{t.sokoban.left}</button>
+            <button onClick={() => playerMove("r")} className="px-3 py-2 border rounded">{t.sokoban.right}</button>
+            <button onClick={() => playerMove("d")} className="px-3 py-2 border rounded">{t.sokoban.down}</button>
+          </div>
+
+          <div className="flex gap-2 mt-2">
+            <button onClick={() => jumpTo(moves.length - 1)} className="px-3 py-2 border rounded" disabled={moves.length === 0}>{t.sokoban.undo}</button>
+            <button onClick={() => jumpTo(moves.length + 1)} className="px-3 py-2 border rounded" disabled={redo.length === 0}>{t.sokoban.redo}</button>
+            <button onClick={handleReset} className="px-3 py-2 border rounded">{t.sokoban.reset}</button>
+            {testing ? (
+              <button onClick={() => openEditor()} className="px-3 py-2 border rounded">{t.sokoban.backToEditor}</button>
+            ) : (
+              <>
+                <button onClick={nextLevel} className="px-3 py-2 border rounded">{t.sokoban.nextLevel}</button>
+                <button onClick={() => openEditor(level.board)} className="px-3 py-2 border rounded">{t.sokoban.edit}</button>
+              </>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2 mt-2">
+            <button onClick={handleHint} className="px-3 py-2 border rounded" disabled={solving || won}>{t.sokoban.hint}</button>
+            <button onClick={handleSolve} className="px-3 py-2 border rounded" disabled={solving || won}>
+              {solving ? t.sokoban.searching : t.sokoban.solve}
+            </button>
+            {solving && <button onClick={cancelSolver} className="px-3 py-2 border rounded">{t.sokoban.cancel}</button>}
+            {solution && !solution.walk && solution.step < solution.lurd.length && (
+              <>
+                <button onClick={() => setPlaying((v) => !v)} className="px-3 py-2 border rounded">
+                  {playing ? t.sokoban.pause : t.sokoban.resume}
+                </button>
+                <button onClick={playbackStep} className="px-3 py-2 border rounded" disabled={playing}>{t.sokoban.step}</button>
+                <button onClick={clearSolver} className="px-3 py-2 border rounded">{t.sokoban.stop}</button>
+              </>
+            )}
+          </div>
+          {solution && !solution.walk && (
+            <p className="mt-2 text-sm text-gray-600 font-mono">
+              {solution.step}/{solution.lurd.length}
+            </p>
+          )}
+          {solverMessage && <p className="mt-2 text-sm text-gray-700">{solverMessage}</p>}
+
+          <p className="mt-3 text-sm text-gray-700">{t.sokoban.controls}</p>
+          {moves.length + redo.length > 0 && (
+            // lista de movimientos: clic en uno para volver a ese punto (los deshechos en gris)
+            <p className="mt-2 font-mono text-xs break-all">
+              {Array.from(moves + redo, (ch, i) => (
+                <span
+                  key={i}
+                  onClick={() => jumpTo(i + 1)}
+                  className={`cursor-pointer ${i < moves.length ? "" : "text-gray-400"} ${i === moves.length - 1 ? "bg-yellow-200" : ""}`}
+                >
+                  {ch}
+                </span>
+              ))}
+            </p>
+          )}
+
+          <details className="mt-2 text-sm">
+            <summary className="cursor-pointer">{t.sokoban.lurd}</summary>
+            <textarea
+              value={lurdText}
+              onChange={(e) => setLurdText(e.target.value)}
+              rows={3}
+              className="w-full mt-2 p-2 border rounded font-mono text-xs"
+              placeholder={t.sokoban.lurdPlaceholder}
+            />
+            <div className="flex flex-wrap gap-2 mt-2">
+              <button onClick={() => startReplay(lurdText)} className="px-3 py-2 border rounded">{t.sokoban.replay}</button>
+              <button onClick={() => setLurdText(moves)} className="px-3 py-2 border rounded">{t.sokoban.myMoves}</button>
+              {bestLurd && (
+                <button onClick={() => startReplay(bestLurd)} className="px-3 py-2 border rounded">{t.sokoban.showBest}</button>
+              )}
+            </div>
+            {lurdMessage && <p className="mt-2 text-gray-700">{lurdMessage}</p>}
+          </details>
+
+          <label className="flex items-center gap-1 mt-2 text-sm">
+            <input type="checkbox" checked={preventDeadlocks} onChange={(e) => setPreventDeadlocks(e.target.checked)} />
+            {t.sokoban.preventDeadlocks}
+          </label>
+          {deadlockMessage && <p className="mt-2 text-sm text-orange-600">{deadlockMessage}</p>}
+
+          <p role="status" className="sr-only">
+            {announcement}
+          </p>
+
+          <LeaderboardPanel
+            board={!testing && packIndex < bundledCount ? boardSokoban(levelKey(level.board)) : null}
+            result={
+              won && !testing && !assisted ? { game: "sokoban", level: levelKey(level.board), lurd: moves } : null
+            }
+            format={(e) => formatEntry(e, t)}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { describe, expect, it } from "vitest";
+import { MESSAGES } from "../componentes/idioma";
+import {
+  applyMove,
+  BadCharError,
+  boxesOnGoals,
+  type Cell,
+  countPushes,
+  deadSquares,
+  findDeadlocks,
+  isWin,
+  legalMoves,
+  levelKey,
+  levelProblems,
+  levelTitle,
+  levelToText,
+  packErrorMessage,
+  packWarningMessage,
+  parseLevel,
+  parsePack,
+  pushPath,
+  replayLurd,
+  walkPath,
+} from "./sokoban";
+
+// applyMove con un paso que tiene que ser posible
+function step(board: Cell[][], dir: "l" | "u" | "r" | "d") {
+  const result = applyMove(board, dir);
+  if (!result) throw new Error(`No se puede mover hacia ${dir}`);
+  return result;
+}
+
+describe("parseLevel", () => {
+  it("lee XSB con filas desiguales y sangría", () => {
+    const board = parseLevel("  #####\n  #@$.#\n  ####");
+    expect(levelToText(board)).toBe("#####\n#@$.#\n####");
+    expect(board[2]).toHaveLength(5);
+  });
+
+  it("acepta RLE, | como separador y la notación con letras", () => {
+    expect(levelToText(parseLevel("5#|#pb.#|5#"))).toBe("#####\n#@$.#\n#####");
+    expect(parseLevel("#P B#")[0]).toEqual(["#", "+", " ", "*", "#"]);
+  });
+
+  it("rechaza caracteres que no son de Sokoban", () => {
+    expect(() => parseLevel("#@x#")).toThrow(new BadCharError("x"));
+  });
+});
+
+describe("applyMove", () => {
+  it("anda por el suelo en minúscula", () => {
+    const { board, letter } = step(parseLevel("#####\n#@  #\n#####"), "r");
+    expect(letter).toBe("r");
+    expect(levelToText(board)).toBe("#####\n# @ #\n#####");
+  });
+
+  it("al empujar una caja sobre un objetivo queda *", () => {
+    const { board, letter } = step(parseLevel("######\n#@$. #\n######"), "r");
+    expect(letter).toBe("R");
+    expect(board[1]).toEqual(["#", " ", "@", "*", " ", "#"]);
+  });
+
+  it("al sacar una caja de un objetivo el jugador queda en + y la caja vuelve a $", () => {
+    const { board } = step(parseLevel("######\n#@*  #\n######"), "r");
+    expect(board[1]).toEqual(["#", " ", "+", "$", " ", "#"]);
+  });
+
+  it("al salir de un objetivo deja el objetivo libre", () => {
+    const { board } = step(parseLevel("#####\n#+  #\n#####"), "r");
+    expect(board[1]).toEqual(["#", ".", "@", " ", "#"]);
+  });
+
+  it("no atraviesa paredes ni empuja dos cajas", () => {
+    const board = parseLevel("#######\n#@$$. #\n#######");
+    expect(applyMove(board, "l")).toBeNull();
+    expect(applyMove(board, "r")).toBeNull();
+    expect(legalMoves(board)).toEqual([]);
+  });
+
+  it("no empuja una caja contra una pared", () => {
+    expect(applyMove(parseLevel("####\n#@$#\n####"), "r")).toBeNull();
+  });
+
+  it("no modifica el tablero de partida", () => {
+    const board = parseLevel("#####\n#@$.#\n#####");
+    step(board, "r");
+    expect(levelToText(board)).toBe("#####\n#@$.#\n#####");
+  });
+});
+
+describe("LURD", () => {
+  const level = parseLevel(["#######", "#     #", "# $@. #", "#     #", "#######"].join("\n"));
+
+  it("replayLurd aplica la cadena y corrige mayúsculas", () => {
+    const res = replayLurd(level, "UllDrr");
+    expect(res.error).toBeNull();
+    expect(res.lurd).toBe("ulldRR");
+    expect(isWin(res.board)).toBe(true);
+  });
+
+  it("replayLurd indica el primer paso imposible", () => {
+    const res = replayLurd(level, "ruuu");
+    expect(res.error).toBe(2);
+    expect(res.lurd).toBe("ru");
+  });
+
+  it("countPushes cuenta las mayúsculas", () => {
+    expect(countPushes("urRdLLu")).toBe(3);
+  });
+
+  it("walkPath no atraviesa cajas y pushPath lleva la caja al destino", () => {
+    const board = parseLevel(["#######", "#     #", "#@$   #", "#   . #", "#######"].join("\n"));
+    const walk = walkPath(board, [3, 2]);
+    expect(walk).not.toBeNull();
+    expect(walk).not.toMatch(/^r/);
+    const push = pushPath(board, [2, 2], [4, 3]);
+    expect(push).not.toBeNull();
+    expect(isWin(replayLurd(board, push!).board)).toBe(true);
+  });
+});
+
+describe("victoria y bloqueos", () => {
+  it("isWin exige que no quede ninguna caja fuera de objetivo", () => {
+    expect(isWin(parseLevel("#####\n#@ *#\n#####"))).toBe(true);
+    expect(isWin(parseLevel("#####\n#@$.#\n#####"))).toBe(false);
+  });
+
+  it("boxesOnGoals cuenta las cajas colocadas y el total", () => {
+    expect(boxesOnGoals(parseLevel("#######\n#@$.*.#\n#######"))).toEqual({ placed: 1, total: 2 });
+  });
+
+  it("una caja en una esquina sin objetivo está bloqueada", () => {
+    const board = parseLevel(["######", "#$   #", "#  @.#", "######"].join("\n"));
+    const dead = deadSquares(board);
+    expect(dead[1][1]).toBe(true);
+    expect(findDeadlocks(board, dead)).toEqual([[1, 1]]);
+  });
+
+  it("dos cajas juntas contra una pared se congelan", () => {
+    const board = parseLevel(["#######", "# $$..#", "#  @  #", "#######"].join("\n"));
+    // casillas vivas (se podrían empujar a la derecha hasta los objetivos), pero ninguna de las dos se puede mover
+    expect(deadSquares(board)[1].slice(2, 4)).toEqual([false, false]);
+    expect(findDeadlocks(board, deadSquares(board))).toHaveLength(2);
+  });
+
+  it("las cajas en objetivo no cuentan como bloqueo", () => {
+    const board = parseLevel(["#####", "#*@ #", "#####"].join("\n"));
+    expect(findDeadlocks(board, deadSquares(board))).toEqual([]);
+  });
+});
+
+describe("colecciones", () => {
+  it("lee título, autor y niveles; descarta los no jugables con aviso", () => {
+    const text = [
+      "Title: Prueba",
+      "Author: Alguien",
+      "",
+      "#####",
+      "#@$.#",
+      "#####",
+      "Title: Uno",
+      "",
+      "#####",
+      "#@$ #",
+      "#####",
+      "Title: Sin objetivo",
+    ].join("\n");
+    const res = parsePack(text, "archivo");
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.pack.title).toBe("Prueba");
+    expect(res.pack.author).toBe("Alguien");
+    expect(res.pack.levels.map((l) => l.title)).toEqual(["Uno"]);
+    expect(res.warnings).toEqual([
+      { title: "Sin objetivo", index: 1, problems: [{ code: "mismatch", boxes: 1, goals: 0 }] },
+    ]);
+    expect(packWarningMessage(res.warnings[0], MESSAGES.en)).toBe(
+      "Sin objetivo: There are 1 boxes and 0 targets; they must match."
+    );
+  });
+
+  it("sin niveles jugables no hay colección; sin título se usa el de respaldo", () => {
+    expect(parsePack("Title: Vacía", "archivo")).toEqual({ ok: false, warnings: [] });
+    const noPlayer = parsePack("#####\n# $.#\n#####", "archivo");
+    expect(noPlayer).toEqual({ ok: false, warnings: [{ index: 0, problems: [{ code: "no-player" }] }] });
+    expect(!noPlayer.ok && packErrorMessage(noPlayer.warnings, MESSAGES.es)).toBe(
+      "Ningún nivel es jugable. Nivel 1: No hay jugador."
+    );
+    const res = parsePack("#####\n#@$.#\n#####", "archivo");
+    expect(res.ok && res.pack.title).toBe("archivo");
+    expect(res.ok && levelTitle(res.pack.levels[0], 0, MESSAGES.es)).toBe("Nivel 1");
+  });
+
+  it("levelProblems", () => {
+    expect(levelProblems(parseLevel("#####\n#@$.#\n#####"))).toEqual([]);
+    expect(levelProblems(parseLevel("#####\n# $.#\n#####"))).toEqual([{ code: "no-player" }]);
+    expect(levelProblems(parseLevel(" @$. "), true)).toContainEqual({ code: "open" });
+  });
+
+  it("levelKey depende solo del tablero", () => {
+    expect(levelKey(parseLevel("  #####\n  #@$.#\n  #####"))).toBe(levelKey(parseLevel("#####\n#@$.#\n#####")));
+    expect(levelKey(parseLevel("#####\n#@$.#\n#####"))).not.toBe(levelKey(parseLevel("#####\n#.$@#\n#####")));
+  });
+});
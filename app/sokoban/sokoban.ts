@@ -0,0 +1,473 @@
+// sokoban.ts
+// Reglas y formato de niveles de Sokoban sin dependencias de React.
+// - Celdas en ASCII estándar (XSB): # pared, espacio/-/_ suelo, . objetivo, $ caja, * caja en objetivo,
+//   @ jugador, + jugador en objetivo (también p/P/b/B y filas comprimidas con números y |)
+// - Colecciones .sok/.xsb con título, autor y comentarios de la colección y de cada nivel
+// - Movimientos en notación LURD (aplicar un paso, pasos posibles, reproducir una cadena, contar empujes)
+// - Caminos: andar hasta una casilla y llevar una caja a otra con los empujes necesarios
+// - Utilidades: jugador, victoria, interior del nivel, validación y una clave estable por nivel
+
+import type { Messages } from "../componentes/idioma";
+
+export type Cell = "#" | " " | "." | "$" | "@" | "*" | "+"; // pared, suelo, objetivo, caja, jugador, caja+objetivo, jugador+objetivo
+
+// title: el del archivo; sin él se muestra "Nivel N" (levelTitle)
+export type Level = { title?: string; author?: string; comments: string[]; board: Cell[][] };
+
+export type LevelPack = { title: string; author?: string; comments: string[]; levels: Level[] };
+
+// notación LURD: minúscula = paso, mayúscula = empuje
+export type Direction = "l" | "u" | "r" | "d";
+
+export const MOVES: Record<Direction, [number, number]> = { l: [-1, 0], u: [0, -1], r: [1, 0], d: [0, 1] };
+
+// Motivo por el que un nivel no se puede jugar
+export type LevelProblem =
+  | { code: "bad-char"; char: string }
+  | { code: "no-player" }
+  | { code: "players"; count: number }
+  | { code: "no-boxes" }
+  | { code: "mismatch"; boxes: number; goals: number }
+  | { code: "open" };
+
+// nivel descartado de una colección (index desde 0)
+export type PackWarning = { title?: string; index: number; problems: LevelProblem[] };
+
+export type PackResult =
+  | { ok: true; pack: LevelPack; warnings: PackWarning[] }
+  | { ok: false; warnings: PackWarning[] }; // ningún nivel jugable (warnings vacío: el archivo no tiene niveles)
+
+// colecciones incluidas con el juego (en public/); la clasificación solo admite sus niveles
+export const BUNDLED_PACKS = ["/sokoban/inicio.sok", "/sokoban/almacen.sok"];
+
+// variantes de suelo (- y _) y la notación con letras de algunos programas
+const CELLS: Record<string, Cell> = {
+  "#": "#",
+  " ": " ",
+  "-": " ",
+  _: " ",
+  ".": ".",
+  $: "$",
+  b: "$",
+  "*": "*",
+  B: "*",
+  "@": "@",
+  p: "@",
+  "+": "+",
+  P: "+",
+};
+
+// línea de tablero: solo caracteres de celda, números de RLE y | (separador de filas), con alguna pared
+const BOARD_LINE = /^[#\-_ .$*@+pPbB0-9|]*#[#\-_ .$*@+pPbB0-9|]*$/;
+
+// "3#-2$" -> "###-$$"
+function expandRle(row: string) {
+  return row.replace(/(\d+)(\D)/g, (_, n: string, ch: string) => ch.repeat(parseInt(n, 10)));
+}
+
+// Error de parseLevel con el carácter que no es de Sokoban
+export class BadCharError extends Error {
+  constructor(readonly char: string) {
+    super(`bad Sokoban character "${char}"`);
+  }
+}
+
+// Acepta filas de distinta longitud (se rellenan con suelo), sangría común y líneas vacías alrededor.
+// Lanza un BadCharError si aparece un carácter que no es de Sokoban.
+export function parseLevel(ascii: string): Cell[][] {
+  const rows = ascii
+    .replace(/\r/g, "")
+    .replace(/\t/g, "    ")
+    .split(/\n|\|/)
+    .map((r) => expandRle(r).replace(/\s+$/, ""));
+  while (rows.length > 0 && rows[0] === "") rows.shift();
+  while (rows.length > 0 && rows[rows.length - 1] === "") rows.pop();
+
+  const indent = Math.min(...rows.filter((r) => r !== "").map((r) => r.length - r.trimStart().length));
+  const trimmed = rows.map((r) => r.slice(indent));
+  const width = Math.max(0, ...trimmed.map((r) => r.length));
+  return trimmed.map((r) =>
+    Array.from(r.padEnd(width, " "), (ch) => {
+      const cell = CELLS[ch];
+      if (!cell) throw new BadCharError(ch);
+      return cell;
+    })
+  );
+}
+
+export function levelToText(board: Cell[][]) {
+  return board.map((row) => row.join("").replace(/\s+$/, "")).join("\n");
+}
+
+// Nivel vacío rodeado de paredes (punto de partida del editor)
+export function emptyLevel(width: number, height: number): Cell[][] {
+  return Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width }, (_, x) => (y === 0 || x === 0 || y === height - 1 || x === width - 1 ? "#" : " "))
+  );
+}
+
+export function cloneBoard(board: Cell[][]) {
+  return board.map((row) => row.slice());
+}
+
+export function findPlayer(board: Cell[][]): [number, number] | null {
+  for (let y = 0; y < board.length; y++)
+    for (let x = 0; x < board[y].length; x++) if (board[y][x] === "@" || board[y][x] === "+") return [x, y];
+  return null;
+}
+
+export function isWin(board: Cell[][]) {
+  for (let y = 0; y < board.length; y++)
+    for (let x = 0; x < board[y].length; x++) if (board[y][x] === "$") return false;
+  return true;
+}
+
+// Cajas ya colocadas en un objetivo y total de cajas del tablero.
+export function boxesOnGoals(board: Cell[][]) {
+  const cells = board.flat();
+  return { placed: cells.filter((c) => c === "*").length, total: cells.filter((c) => c === "*" || c === "$").length };
+}
+
+// Un paso del jugador en la dirección dada; null si no puede (pared, caja bloqueada o fuera del tablero).
+// letter es la letra LURD del paso: mayúscula si ha empujado una caja.
+export function applyMove(board: Cell[][], dir: Direction): { board: Cell[][]; letter: string } | null {
+  const p = findPlayer(board);
+  if (!p) return null;
+  const [dx, dy] = MOVES[dir];
+  const [px, py] = p;
+  const [tx, ty] = [px + dx, py + dy];
+  const target = board[ty]?.[tx];
+  if (target === undefined || target === "#") return null;
+
+  const next = cloneBoard(board);
+  const pushed = target === "$" || target === "*";
+  if (pushed) {
+    const [bx, by] = [tx + dx, ty + dy];
+    const beyond = next[by]?.[bx];
+    if (beyond === undefined || beyond === "#" || beyond === "$" || beyond === "*") return null;
+    next[by][bx] = beyond === "." ? "*" : "$";
+  }
+  next[py][px] = next[py][px] === "+" ? "." : " ";
+  next[ty][tx] = target === "." || target === "*" ? "+" : "@";
+  return { board: next, letter: pushed ? dir.toUpperCase() : dir };
+}
+
+// Direcciones en las que el jugador puede dar un paso (andando o empujando)
+export function legalMoves(board: Cell[][]): Direction[] {
+  return (Object.keys(MOVES) as Direction[]).filter((dir) => applyMove(board, dir) !== null);
+}
+
+// Aplica una cadena LURD desde `board`. error = índice del primer paso imposible (o letra no válida),
+// null si se aplicó entera. lurd vuelve con las mayúsculas corregidas según lo que se empujó de verdad.
+export function replayLurd(board: Cell[][], lurd: string): { board: Cell[][]; lurd: string; error: number | null } {
+  let current = board;
+  let applied = "";
+  for (let i = 0; i < lurd.length; i++) {
+    const dir = lurd[i].toLowerCase();
+    const result = dir in MOVES ? applyMove(current, dir as Direction) : null;
+    if (!result) return { board: current, lurd: applied, error: i };
+    current = result.board;
+    applied += result.letter;
+  }
+  return { board: current, lurd: applied, error: null };
+}
+
+type Point = [number, number];
+
+const isBoxCell = (c: Cell | undefined) => c === "$" || c === "*";
+
+// BFS del jugador de `from` a `to` sin atravesar lo bloqueado; LURD en minúsculas o null si no hay camino
+function shortestPath(from: Point, to: Point, blocked: (x: number, y: number) => boolean): string | null {
+  const prev = new Map<string, [string, Direction]>();
+  const startKey = `${from[0]},${from[1]}`;
+  const queue: Point[] = [from];
+  const seen = new Set([startKey]);
+  for (let q = 0; q < queue.length; q++) {
+    const [x, y] = queue[q];
+    if (x === to[0] && y === to[1]) {
+      let path = "";
+      // la casilla de salida no tiene anterior: ahí termina el camino
+      for (let step = prev.get(`${x},${y}`); step; step = prev.get(step[0])) path = step[1] + path;
+      return path;
+    }
+    for (const [dir, [dx, dy]] of Object.entries(MOVES) as [Direction, Point][]) {
+      const [nx, ny] = [x + dx, y + dy];
+      const key = `${nx},${ny}`;
+      if (seen.has(key) || blocked(nx, ny)) continue;
+      seen.add(key);
+      prev.set(key, [`${x},${y}`, dir]);
+      queue.push([nx, ny]);
+    }
+  }
+  return null;
+}
+
+// Camino más corto del jugador hasta `to` sin empujar cajas; null si no se puede llegar
+export function walkPath(board: Cell[][], to: Point): string | null {
+  const p = findPlayer(board);
+  if (!p) return null;
+  return shortestPath(p, to, (x, y) => {
+    const c = board[y]?.[x];
+    return c === undefined || c === "#" || isBoxCell(c);
+  });
+}
+
+// Movimientos para llevar la caja de `from` a `to` con el menor número de empujes, sin tocar las
+// demás cajas; null si no es posible. BFS sobre (posición de la caja, posición del jugador).
+export function pushPath(board: Cell[][], from: Point, to: Point): string | null {
+  const p = findPlayer(board);
+  if (!p || !isBoxCell(board[from[1]]?.[from[0]])) return null;
+  const wallOrOther = (x: number, y: number) => {
+    const c = board[y]?.[x];
+    return c === undefined || c === "#" || (isBoxCell(c) && !(x === from[0] && y === from[1]));
+  };
+
+  const queue: { box: Point; player: Point; path: string }[] = [{ box: from, player: p, path: "" }];
+  const seen = new Set([`${from}|${p}`]);
+  for (let q = 0; q < queue.length; q++) {
+    const { box, player, path } = queue[q];
+    if (box[0] === to[0] && box[1] === to[1]) return path;
+    const blocked = (x: number, y: number) => wallOrOther(x, y) || (x === box[0] && y === box[1]);
+    for (const [dir, [dx, dy]] of Object.entries(MOVES) as [Direction, Point][]) {
+      const stand: Point = [box[0] - dx, box[1] - dy];
+      const target: Point = [box[0] + dx, box[1] + dy];
+      if (blocked(...target) || blocked(...stand)) continue;
+      const key = `${target}|${box}`;
+      if (seen.has(key)) continue;
+      const walk = shortestPath(player, stand, blocked);
+      if (walk === null) continue;
+      seen.add(key);
+      queue.push({ box: target, player: box, path: path + walk + dir.toUpperCase() });
+    }
+  }
+  return null;
+}
+
+export function countPushes(lurd: string) {
+  return Array.from(lurd).filter((ch) => ch !== ch.toLowerCase()).length;
+}
+
+// Celdas a las que llega el jugador sin atravesar paredes (las cajas no cuentan como obstáculo).
+// Lo que queda fuera es el exterior del nivel y no se dibuja como suelo.
+export function interiorOf(board: Cell[][]): boolean[][] {
+  const inside = board.map((row) => row.map(() => false));
+  const start = findPlayer(board);
+  if (!start) return inside;
+  const stack = [start];
+  inside[start[1]][start[0]] = true;
+  for (let p = stack.pop(); p; p = stack.pop()) {
+    const [x, y] = p;
+    for (const [nx, ny] of [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]]) {
+      if (ny < 0 || ny >= board.length || nx < 0 || nx >= board[ny].length) continue;
+      if (inside[ny][nx] || board[ny][nx] === "#") continue;
+      inside[ny][nx] = true;
+      stack.push([nx, ny]);
+    }
+  }
+  return inside;
+}
+
+// Empujes mínimos para llevar una caja desde cada casilla hasta algún objetivo, ignorando las
+// demás cajas (Infinity si es imposible). Se calcula "tirando" de las cajas hacia atrás desde los
+// objetivos: la caja en p llega a p + d si el jugador cabe en p - d.
+export function pushDistances(board: Cell[][]): number[][] {
+  const free = (x: number, y: number) => y >= 0 && y < board.length && x >= 0 && x < board[y].length && board[y][x] !== "#";
+  const dist = board.map((row) => row.map(() => Infinity));
+  let frontier: [number, number][] = [];
+  board.forEach((row, y) =>
+    row.forEach((c, x) => {
+      if (c === "." || c === "*" || c === "+") {
+        dist[y][x] = 0;
+        frontier.push([x, y]);
+      }
+    })
+  );
+  for (let d = 1; frontier.length > 0; d++) {
+    const next: [number, number][] = [];
+    for (const [x, y] of frontier)
+      for (const [dx, dy] of Object.values(MOVES)) {
+        const px = x - dx;
+        const py = y - dy;
+        if (!free(px, py) || !free(px - dx, py - dy) || dist[py][px] !== Infinity) continue;
+        dist[py][px] = d;
+        next.push([px, py]);
+      }
+    frontier = next;
+  }
+  return dist;
+}
+
+// Casillas muertas: una caja que acabe en ellas ya no puede llegar a ningún objetivo
+export function deadSquares(board: Cell[][]): boolean[][] {
+  const dist = pushDistances(board);
+  const inside = interiorOf(board);
+  return board.map((row, y) => row.map((c, x) => inside[y][x] && c !== "#" && dist[y][x] === Infinity));
+}
+
+// Cajas en bloqueo (lista vacía si no hay): las que están en una casilla muerta y las congeladas
+// fuera de un objetivo. Una caja está congelada si no se puede mover en ninguno de los dos ejes:
+// en cada eje tiene una pared al lado, casillas muertas a ambos lados o una caja congelada al lado
+// (comprobada tratando la primera como pared para no entrar en ciclos).
+export function findDeadlocks(board: Cell[][], dead: boolean[][]): [number, number][] {
+  const isBox = (x: number, y: number) => board[y]?.[x] === "$" || board[y]?.[x] === "*";
+  const isWall = (x: number, y: number, walls: Set<string>) => (board[y]?.[x] ?? "#") === "#" || walls.has(`${x},${y}`);
+
+  function blocked(x: number, y: number, dx: number, dy: number, walls: Set<string>): boolean {
+    const [ax, ay, bx, by] = [x - dx, y - dy, x + dx, y + dy];
+    if (isWall(ax, ay, walls) || isWall(bx, by, walls)) return true;
+    if (dead[ay]?.[ax] && dead[by]?.[bx]) return true;
+    const inner = new Set(walls).add(`${x},${y}`);
+    return (isBox(ax, ay) && frozen(ax, ay, inner)) || (isBox(bx, by) && frozen(bx, by, inner));
+  }
+  function frozen(x: number, y: number, walls: Set<string>) {
+    return blocked(x, y, 1, 0, walls) && blocked(x, y, 0, 1, walls);
+  }
+
+  const res: [number, number][] = [];
+  board.forEach((row, y) =>
+    row.forEach((c, x) => {
+      if (c === "$" && (dead[y][x] || frozen(x, y, new Set()))) res.push([x, y]);
+    })
+  );
+  return res;
+}
+
+// Un nivel está cerrado si el jugador no puede llegar al borde del tablero
+export function isEnclosed(board: Cell[][]) {
+  const inside = interiorOf(board);
+  return inside.every((row, y) => row.every((v, x) => !v || (y > 0 && y < board.length - 1 && x > 0 && x < row.length - 1)));
+}
+
+// Problemas que impiden jugar el nivel (lista vacía si es jugable).
+// strict: además exige que esté cerrado por paredes (el editor lo pide; en colecciones ajenas se tolera)
+export function levelProblems(board: Cell[][], strict = false): LevelProblem[] {
+  const count = (...cells: Cell[]) => board.flat().filter((c) => cells.includes(c)).length;
+  const problems: LevelProblem[] = [];
+  const players = count("@", "+");
+  if (players !== 1) problems.push(players === 0 ? { code: "no-player" } : { code: "players", count: players });
+  const boxes = count("$", "*");
+  const goals = count(".", "*", "+");
+  if (boxes === 0) problems.push({ code: "no-boxes" });
+  if (boxes !== goals) problems.push({ code: "mismatch", boxes, goals });
+  if (strict && players === 1 && !isEnclosed(board)) problems.push({ code: "open" });
+  return problems;
+}
+
+export function problemMessage(problem: LevelProblem, t: Messages): string {
+  const messages = t.sokoban.problems;
+  switch (problem.code) {
+    case "bad-char":
+      return messages.badChar(problem.char);
+    case "no-player":
+      return messages.noPlayer;
+    case "players":
+      return messages.players(problem.count);
+    case "no-boxes":
+      return messages.noBoxes;
+    case "mismatch":
+      return messages.mismatch(problem.boxes, problem.goals);
+    case "open":
+      return messages.open;
+  }
+}
+
+// título para mostrar: el del archivo o "Nivel N" (index desde 0)
+export function levelTitle(level: { title?: string }, index: number, t: Messages) {
+  return level.title ?? t.sokoban.levelNumber(index + 1);
+}
+
+export function packWarningMessage(warning: PackWarning, t: Messages) {
+  return `${levelTitle(warning, warning.index, t)}: ${warning.problems.map((p) => problemMessage(p, t)).join(" ")}`;
+}
+
+// colección sin niveles jugables: por qué se ha descartado cada uno
+export function packErrorMessage(warnings: PackWarning[], t: Messages) {
+  if (warnings.length === 0) return t.sokoban.problems.noLevels;
+  return t.sokoban.problems.noPlayable(warnings.map((w) => packWarningMessage(w, t)).join(" "));
+}
+
+// Clave corta y estable a partir del contenido del nivel (para marcar niveles completados)
+export function levelKey(board: Cell[][]) {
+  let hash = 5381;
+  for (const ch of levelToText(board)) hash = ((hash * 33) ^ ch.charCodeAt(0)) >>> 0;
+  return hash.toString(36);
+}
+
+type Meta = { title?: string; author?: string; comments: string[] };
+
+// Metadatos de la cabecera de la colección o de las líneas que siguen a un nivel:
+// "Title:", "Author:", bloques "Comment:" ... "Comment-End:", líneas con ; y texto libre
+// (la primera línea libre sin título hace de título).
+function readMeta(lines: string[]): Meta {
+  const meta: Meta = { comments: [] };
+  let inComment = false;
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (inComment) {
+      if (/^comment[-_ ]?end:?$/i.test(line)) inComment = false;
+      else meta.comments.push(line);
+      continue;
+    }
+    if (line === "") continue;
+    const m = line.match(/^(title|collection|author|comment|description)\s*:\s*(.*)$/i);
+    if (m) {
+      const key = m[1].toLowerCase();
+      if (key === "title" || key === "collection") meta.title = m[2];
+      else if (key === "author") meta.author = m[2];
+      else if (m[2] === "") inComment = true;
+      else meta.comments.push(m[2]);
+    } else if (line.startsWith(";") || line.startsWith("'")) {
+      const text = line.slice(1).trim();
+      if (text !== "") meta.comments.push(text);
+    } else if (!meta.title) meta.title = line;
+    else meta.comments.push(line);
+  }
+  // quitar líneas vacías sobrantes al final de un bloque de comentario
+  while (meta.comments.length > 0 && meta.comments[meta.comments.length - 1] === "") meta.comments.pop();
+  return meta;
+}
+
+// Lee una colección .sok/.xsb. Los niveles no jugables se descartan con un aviso;
+// si no queda ninguno se devuelve ok: false. fallbackTitle: título si el archivo no trae (su nombre, p. ej.)
+export function parsePack(text: string, fallbackTitle: string): PackResult {
+  const lines = text.replace(/\r/g, "").split("\n");
+  const header: string[] = [];
+  const blocks: { rows: string[]; meta: string[] }[] = [];
+  for (const line of lines) {
+    const isBoard = BOARD_LINE.test(line);
+    const current = blocks[blocks.length - 1];
+    if (isBoard && current && current.meta.length === 0) current.rows.push(line);
+    else if (isBoard) blocks.push({ rows: [line], meta: [] });
+    else if (current) current.meta.push(line);
+    else header.push(line);
+  }
+
+  const levels: Level[] = [];
+  const warnings: PackWarning[] = [];
+  blocks.forEach((block, i) => {
+    const meta = readMeta(block.meta);
+    const { title } = meta;
+    let board: Cell[][];
+    try {
+      board = parseLevel(block.rows.join("\n"));
+    } catch (e) {
+      if (!(e instanceof BadCharError)) throw e;
+      warnings.push({ title, index: i, problems: [{ code: "bad-char", char: e.char }] });
+      return;
+    }
+    const problems = levelProblems(board);
+    if (problems.length > 0) {
+      warnings.push({ title, index: i, problems });
+      return;
+    }
+    levels.push({ title, author: meta.author, comments: meta.comments, board });
+  });
+
+  if (levels.length === 0) return { ok: false, warnings };
+  const meta = readMeta(header);
+  return {
+    ok: true,
+    pack: { title: meta.title ?? fallbackTitle, author: meta.author, comments: meta.comments, levels },
+    warnings,
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { countPushes, isWin, parseLevel, replayLurd } from "./sokoban";
+import { solveLevel } from "./solver";
+
+// la solución tiene que poder repetirse desde el inicio y dejar todas las cajas en objetivos
+function expectSolves(ascii: string) {
+  const board = parseLevel(ascii);
+  const result = solveLevel(board);
+  expect(result.status).toBe("solved");
+  if (result.status !== "solved") return;
+  const replay = replayLurd(board, result.lurd);
+  expect(replay.error).toBeNull();
+  expect(isWin(replay.board)).toBe(true);
+  expect(result.pushes).toBe(countPushes(result.lurd));
+  return result;
+}
+
+describe("solveLevel", () => {
+  it("un empuje en línea recta", () => {
+    expect(expectSolves("#####\n#@$.#\n#####")).toEqual({ status: "solved", lurd: "R", pushes: 1 });
+  });
+
+  it("rodea la caja para empujarla desde el otro lado", () => {
+    expectSolves(["#######", "#     #", "# .$@ #", "#     #", "#######"].join("\n"));
+  });
+
+  it("resuelve con el mínimo de empujes", () => {
+    const result = expectSolves(["########", "#      #", "# $  . #", "#@     #", "########"].join("\n"));
+    expect(result?.pushes).toBe(3);
+  });
+
+  it("varias cajas", () => {
+    expectSolves(["#######", "#.    #", "# $$  #", "#  @ .#", "#######"].join("\n"));
+  });
+
+  it("detecta un nivel sin solución", () => {
+    // la caja está en una esquina sin objetivo
+    expect(solveLevel(parseLevel("#####\n#$ .#\n# @ #\n#####"))).toEqual({ status: "unsolvable" });
+  });
+
+  it("se rinde al llegar al límite de estados", () => {
+    const board = parseLevel(["#########", "#       #", "# $ $ $ #", "#       #", "# . . .@#", "#########"].join("\n"));
+    expect(solveLevel(board, 5)).toMatchObject({ status: "limit" });
+  });
+});
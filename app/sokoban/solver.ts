@@ -0,0 +1,193 @@
+// solver.ts
+// Solver de Sokoban por empujes, sin dependencias de React (se ejecuta en worker.ts).
+// - A* sobre (posiciones de las cajas, zona alcanzable del jugador); coste = empujes
+// - Heurística: suma de empujes mínimos de cada caja a algún objetivo (pushDistances)
+// - Poda: casillas muertas y bloques 2x2 de cajas/paredes con alguna caja fuera de objetivo
+// - Devuelve la solución en LURD (pasos en minúscula, empujes en mayúscula)
+
+import { type Cell, type Direction, findPlayer, MOVES, pushDistances } from "./sokoban";
+
+export type SolveResult =
+  | { status: "solved"; lurd: string; pushes: number }
+  | { status: "unsolvable" }
+  | { status: "limit"; explored: number };
+
+export const DEFAULT_MAX_STATES = 200_000;
+
+type Node = { f: number; g: number; h: number; key: string; boxes: number[]; player: number };
+
+// cola de prioridad mínima por f (y por h en los empates)
+class Heap {
+  private items: Node[] = [];
+
+  private less(a: Node, b: Node) {
+    return a.f < b.f || (a.f === b.f && a.h < b.h);
+  }
+
+  push(node: Node) {
+    const items = this.items;
+    items.push(node);
+    for (let i = items.length - 1; i > 0; ) {
+      const parent = (i - 1) >> 1;
+      if (!this.less(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): Node | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      for (let i = 0; ; ) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let min = i;
+        if (l < items.length && this.less(items[l], items[min])) min = l;
+        if (r < items.length && this.less(items[r], items[min])) min = r;
+        if (min === i) break;
+        [items[i], items[min]] = [items[min], items[i]];
+        i = min;
+      }
+    }
+    return top;
+  }
+}
+
+export function solveLevel(board: Cell[][], maxStates = DEFAULT_MAX_STATES): SolveResult {
+  const height = board.length;
+  const width = Math.max(0, ...board.map((row) => row.length));
+  const size = width * height;
+  const wall = new Uint8Array(size);
+  const goal = new Uint8Array(size);
+  const dist = new Float64Array(size);
+  const distances = pushDistances(board);
+  const start: number[] = [];
+  for (let y = 0; y < height; y++)
+    for (let x = 0; x < width; x++) {
+      const c = board[y][x] ?? "#";
+      const i = y * width + x;
+      wall[i] = c === "#" ? 1 : 0;
+      goal[i] = c === "." || c === "*" || c === "+" ? 1 : 0;
+      dist[i] = distances[y]?.[x] ?? Infinity;
+      if (c === "$" || c === "*") start.push(i);
+    }
+  const p = findPlayer(board);
+  if (!p) return { status: "unsolvable" };
+
+  const dirs = (Object.keys(MOVES) as Direction[]).map((d) => ({
+    letter: d,
+    dx: MOVES[d][0],
+    dy: MOVES[d][1],
+  }));
+  // paso válido dentro del tablero (evita dar la vuelta por los bordes de las filas)
+  const step = (i: number, dx: number, dy: number) => {
+    const x = (i % width) + dx;
+    const y = Math.floor(i / width) + dy;
+    return x < 0 || y < 0 || x >= width || y >= height ? -1 : y * width + x;
+  };
+  const blocked = (i: number, boxes: Set<number>) => i < 0 || wall[i] === 1 || boxes.has(i);
+
+  // celdas alcanzables por el jugador sin mover cajas (orden BFS; el padre sirve para reconstruir caminos)
+  function reach(from: number, boxes: Set<number>) {
+    const parent = new Int32Array(size).fill(-2);
+    parent[from] = -1;
+    const queue = [from];
+    for (let q = 0; q < queue.length; q++) {
+      const i = queue[q];
+      for (const d of dirs) {
+        const n = step(i, d.dx, d.dy);
+        if (blocked(n, boxes) || parent[n] !== -2) continue;
+        parent[n] = i;
+        queue.push(n);
+      }
+    }
+    return { parent, cells: queue };
+  }
+
+  // 2x2 de paredes/cajas alrededor de `box` con alguna caja fuera de objetivo: ninguna se puede mover
+  function frozenSquare(box: number, boxes: Set<number>) {
+    for (const [ox, oy] of [[0, 0], [-1, 0], [0, -1], [-1, -1]]) {
+      const corner = step(box, ox, oy);
+      if (corner < 0) continue;
+      const square = [corner, step(corner, 1, 0), step(corner, 0, 1), step(corner, 1, 1)];
+      if (!square.every((i) => blocked(i, boxes))) continue;
+      if (square.some((i) => i >= 0 && boxes.has(i) && !goal[i])) return true;
+    }
+    return false;
+  }
+
+  const heuristic = (boxes: number[]) => boxes.reduce((sum, b) => sum + dist[b], 0);
+  const keyOf = (player: number, boxes: number[]) => `${player}|${boxes.join(",")}`;
+
+  // empuje que llevó a cada estado, para reconstruir la solución
+  const came = new Map<string, { from: string; box: number; dir: number }>();
+  const bestG = new Map<string, number>();
+  const heap = new Heap();
+
+  const startBoxes = start.slice().sort((a, b) => a - b);
+  const startPlayer = p[1] * width + p[0];
+  const startReach = reach(startPlayer, new Set(startBoxes));
+  const startKey = keyOf(Math.min(...startReach.cells), startBoxes);
+  const h0 = heuristic(startBoxes);
+  if (h0 === Infinity) return { status: "unsolvable" };
+  heap.push({ f: h0, g: 0, h: h0, key: startKey, boxes: startBoxes, player: startPlayer });
+  bestG.set(startKey, 0);
+
+  let explored = 0;
+  for (let node = heap.pop(); node; node = heap.pop()) {
+    if (node.g > (bestG.get(node.key) ?? Infinity)) continue;
+    if (node.boxes.every((b) => goal[b])) return rebuild(node.key);
+    if (++explored > maxStates) return { status: "limit", explored: explored - 1 };
+
+    const boxes = new Set(node.boxes);
+    const { parent } = reach(node.player, boxes);
+    for (const box of node.boxes)
+      dirs.forEach((d, di) => {
+        const stand = step(box, -d.dx, -d.dy);
+        const target = step(box, d.dx, d.dy);
+        if (stand < 0 || parent[stand] === -2 || blocked(target, boxes) || dist[target] === Infinity) return;
+        const nextBoxes = node.boxes.map((b) => (b === box ? target : b)).sort((a, b) => a - b);
+        const nextSet = new Set(nextBoxes);
+        if (!goal[target] && frozenSquare(target, nextSet)) return;
+        const zone = reach(box, nextSet).cells;
+        const key = keyOf(Math.min(...zone), nextBoxes);
+        const g = node.g + 1;
+        if (g >= (bestG.get(key) ?? Infinity)) return;
+        bestG.set(key, g);
+        came.set(key, { from: node.key, box, dir: di });
+        const h = heuristic(nextBoxes);
+        heap.push({ f: g + h, g, h, key, boxes: nextBoxes, player: box });
+      });
+  }
+  return { status: "unsolvable" };
+
+  // de la cadena de empujes a LURD: caminar hasta detrás de cada caja y empujar
+  function rebuild(key: string): SolveResult {
+    const pushes: { box: number; dir: number }[] = [];
+    // el estado inicial no tiene empuje que lleve a él: ahí termina la cadena
+    for (let push = came.get(key); push; push = came.get(push.from)) pushes.unshift(push);
+    let player = startPlayer;
+    const boxes = new Set(startBoxes);
+    let lurd = "";
+    for (const { box, dir } of pushes) {
+      const d = dirs[dir];
+      const stand = step(box, -d.dx, -d.dy);
+      const { parent } = reach(player, boxes);
+      let walk = "";
+      for (let i = stand; parent[i] !== -1; i = parent[i]) {
+        const from = parent[i];
+        const move = dirs.find((x) => step(from, x.dx, x.dy) === i);
+        // parent siempre apunta a una casilla vecina
+        if (move) walk = move.letter + walk;
+      }
+      lurd += walk + d.letter.toUpperCase();
+      boxes.delete(box);
+      boxes.add(step(box, d.dx, d.dy));
+      player = box;
+    }
+    return { status: "solved", lurd, pushes: pushes.length };
+  }
+}
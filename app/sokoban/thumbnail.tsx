@@ -0,0 +1,44 @@
+import { type Cell, interiorOf } from "./sokoban";
+
+// Miniatura de un nivel para el selector: un rectángulo SVG por celda
+export default function LevelThumbnail({ board, cell = 6 }: { board: Cell[][]; cell?: number }) {
+  const inside = interiorOf(board);
+  const width = Math.max(0, ...board.map((row) => row.length));
+
+  return (
+    <svg
+      width={width * cell}
+      height={board.length * cell}
+      viewBox={`0 0 ${width * cell} ${board.length * cell}`}
+      aria-hidden
+    >
+      {board.map((row, y) =>
+        row.map((c, x) => {
+          const key = `${x}-${y}`;
+          if (c === "#") return <rect key={key} x={x * cell} y={y * cell} width={cell} height={cell} fill="#4b5563" />;
+          if (!inside[y][x]) return null;
+          return (
+            <g key={key}>
+              <rect x={x * cell} y={y * cell} width={cell} height={cell} fill="#f3f4f6" />
+              {(c === "." || c === "+") && (
+                <circle cx={(x + 0.5) * cell} cy={(y + 0.5) * cell} r={cell / 4} fill="#f59e0b" />
+              )}
+              {(c === "$" || c === "*") && (
+                <rect
+                  x={x * cell + 1}
+                  y={y * cell + 1}
+                  width={cell - 2}
+                  height={cell - 2}
+                  fill={c === "*" ? "#16a34a" : "#92400e"}
+                />
+              )}
+              {(c === "@" || c === "+") && (
+                <circle cx={(x + 0.5) * cell} cy={(y + 0.5) * cell} r={cell / 2.5} fill="#2563eb" />
+              )}
+            </g>
+          );
+        })
+      )}
+    </svg>
+  );
+}
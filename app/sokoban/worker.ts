@@ -0,0 +1,15 @@
+// worker.ts
+// Web Worker del Sokoban: busca la solución fuera del hilo principal para no congelar la pestaña.
+// Para cancelar una búsqueda la página termina el worker y crea otro.
+
+import type { Cell } from "./sokoban";
+import { type SolveResult, solveLevel } from "./solver";
+
+export type SolverJob = { type: "solve"; board: Cell[][]; maxStates?: number };
+
+export type SolverReply = { type: "solve"; result: SolveResult };
+
+addEventListener("message", (e: MessageEvent<SolverJob>) => {
+  const reply: SolverReply = { type: "solve", result: solveLevel(e.data.board, e.data.maxStates) };
+  postMessage(reply);
+});
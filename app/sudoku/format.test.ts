@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { MESSAGES } from "../componentes/idioma";
+import { decodeShared, encodeShared, parseErrorMessage, parseSudoku, sharedErrorMessage, toLine, toSdk } from "./format";
+import { makeRules, STARTING_BOARD } from "./sudoku";
+
+const LINE = "53..7....6..195....98....6.8...6...34..8.3..17...2...6.6....28....419..5....8..79";
+
+describe("parseSudoku", () => {
+  it("lee una línea con . o 0 y la vuelve a escribir igual", () => {
+    const res = parseSudoku(LINE);
+    expect(res).toEqual({ ok: true, board: STARTING_BOARD });
+    expect(toLine(STARTING_BOARD)).toBe(LINE);
+    expect(parseSudoku(LINE.replace(/\./g, "0"))).toEqual(res);
+  });
+
+  it("lee SDK con comentarios y separadores", () => {
+    const sdk = toSdk(STARTING_BOARD, "Ejemplo");
+    expect(sdk.startsWith("#C Ejemplo\n53..7....")).toBe(true);
+    expect(parseSudoku(sdk)).toEqual({ ok: true, board: STARTING_BOARD });
+    const pretty = "53.|.7.|...\n6..|195|...\n.98|...|.6.\n---+---+---\n" + LINE.slice(27);
+    expect(parseSudoku(pretty)).toEqual({ ok: true, board: STARTING_BOARD });
+  });
+
+  it("explica por qué no puede leer", () => {
+    expect(parseSudoku("")).toMatchObject({ ok: false, error: { code: "empty" } });
+    expect(parseSudoku(LINE.slice(1))).toMatchObject({ ok: false, error: { code: "cell-count", expected: 81, found: 80 } });
+    expect(parseSudoku(LINE.replace("7", "x"))).toMatchObject({ ok: false, error: { code: "bad-char", char: "x" } });
+    const repeated = parseSudoku("55" + LINE.slice(2));
+    expect(repeated.ok).toBe(false);
+    if (!repeated.ok) {
+      expect(Array.from(repeated.conflicts ?? [])).toContain("0,1");
+      expect(repeated.error).toMatchObject({ code: "repeated" });
+    }
+  });
+
+  it("los errores se escriben en el idioma de la interfaz", () => {
+    const error = { code: "bad-char", char: "x", size: 16 } as const;
+    expect(parseErrorMessage(error, MESSAGES.es)).toBe('Carácter no válido "x"; usa 1-G y 0 o . para las vacías.');
+    expect(parseErrorMessage(error, MESSAGES.en)).toBe('Invalid character "x"; use 1-G and 0 or . for empty cells.');
+    expect(parseErrorMessage({ code: "repeated", cells: [[0, 0], [0, 1]] }, MESSAGES.en)).toBe(
+      "There are repeated numbers in cells (r1, c1), (r1, c2)."
+    );
+  });
+
+  it("en 16x16 usa letras para 10-16", () => {
+    const rules = makeRules({ size: 16, kind: "classic" });
+    const line = "G" + ".".repeat(255);
+    const res = parseSudoku(line, rules);
+    expect(res.ok && res.board[0][0]).toBe(16);
+    expect(res.ok && toLine(res.board)).toBe(line);
+  });
+});
+
+describe("enlaces compartidos", () => {
+  it("ida y vuelta con progreso y variante", () => {
+    const rules = makeRules({ size: 9, kind: "diagonal" });
+    const puzzle = parseSudoku("1" + ".".repeat(80), rules);
+    if (!puzzle.ok) throw new Error(puzzle.error.code);
+    const board = puzzle.board.map((r) => r.slice());
+    board[0][1] = 2;
+    const params = encodeShared(puzzle.board, board, rules)!;
+    expect(params.mode).toBe("diagonal");
+    expect(decodeShared(params)).toEqual({ puzzle: puzzle.board, board, rules });
+  });
+
+  it("Killer no se puede compartir", () => {
+    const rules = makeRules({ size: 4, kind: "killer" }, [{ sum: 3, cells: [[0, 0], [0, 1]] }]);
+    expect(encodeShared([[0]], [[0]], rules)).toBeNull();
+  });
+
+  it("rechaza un progreso que cambia las pistas", () => {
+    expect(decodeShared({ puzzle: LINE, progress: "6" + LINE.slice(1) })).toEqual({ error: { code: "mismatch" } });
+    expect(decodeShared({})).toBeNull();
+    const shared = decodeShared({ puzzle: LINE.slice(1) });
+    expect(shared && "error" in shared && sharedErrorMessage(shared.error, MESSAGES.es)).toBe(
+      "Puzzle del enlace no válido: Se esperaban 81 celdas y hay 80."
+    );
+  });
+});
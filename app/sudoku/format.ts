@@ -0,0 +1,133 @@
+// format.ts
+// Importación y exportación de tableros de Sudoku en formatos de texto habituales.
+// - Línea de size² caracteres (0 o . para las vacías; en 16x16 del 10 al 16 son A-G)
+// - Formato SDK multilínea: una fila por línea, líneas de metadatos con # (#A autor, #C comentario...)
+// - Parámetros de URL (?puzzle=...&progress=...&size=...&mode=...) para compartir una posición
+// Las jaulas de Killer no tienen representación en estos formatos.
+
+import type { Messages } from "../componentes/idioma";
+import {
+  type Board,
+  CLASSIC,
+  findConflicts,
+  makeRules,
+  type Pos,
+  type Rules,
+  symbolOf,
+  valueOf,
+  type VariantKind,
+} from "./sudoku";
+
+export type ParseError =
+  | { code: "empty" }
+  | { code: "bad-char"; char: string; size: number }
+  | { code: "cell-count"; expected: number; found: number }
+  | { code: "repeated"; cells: Pos[] };
+
+export type ParseResult =
+  | { ok: true; board: Board }
+  | { ok: false; error: ParseError; conflicts?: Set<string> };
+
+// separadores de los formatos "bonitos" (| y -+- entre cajas) que se ignoran al leer
+const SEPARATORS = /[|+\-\s]/g;
+
+// allowConflicts: para el progreso de un jugador, que puede tener errores propios
+export function parseSudoku(text: string, rules: Rules = CLASSIC, allowConflicts = false): ParseResult {
+  const { size } = rules;
+  const lines = text
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter((l) => l !== "" && !l.startsWith("#"));
+  if (lines.length === 0) return { ok: false, error: { code: "empty" } };
+
+  // formato de una línea: la primera ya trae todas las celdas (el resto, si hay, se ignora)
+  const first = lines[0].replace(SEPARATORS, "");
+  const cells = first.length === size * size ? first : lines.join("").replace(SEPARATORS, "");
+
+  const bad = Array.from(cells).find((ch) => ch !== "0" && ch !== "." && !(valueOf(ch) >= 1 && valueOf(ch) <= size));
+  if (bad) return { ok: false, error: { code: "bad-char", char: bad, size } };
+  if (cells.length !== size * size)
+    return { ok: false, error: { code: "cell-count", expected: size * size, found: cells.length } };
+
+  const board: Board = Array.from({ length: size }, (_, r) =>
+    Array.from({ length: size }, (_, c) => valueOf(cells[r * size + c]))
+  );
+
+  const conflicts = findConflicts(board, rules);
+  if (conflicts.size > 0 && !allowConflicts) {
+    const cells = Array.from(conflicts, (key) => key.split(",").map(Number) as Pos);
+    return { ok: false, error: { code: "repeated", cells }, conflicts };
+  }
+  return { ok: true, board };
+}
+
+export function parseErrorMessage(error: ParseError, t: Messages): string {
+  const messages = t.sudoku.parseErrors;
+  switch (error.code) {
+    case "empty":
+      return messages.empty;
+    case "bad-char":
+      return messages.badChar(error.char, `${symbolOf(1)}-${symbolOf(error.size)}`);
+    case "cell-count":
+      return messages.cellCount(error.expected, error.found);
+    case "repeated":
+      return messages.repeated(error.cells.map(([r, c]) => t.sudoku.cellName(r + 1, c + 1)).join(", "));
+  }
+}
+
+export function toLine(board: Board, blank: "0" | "." = "."): string {
+  return board.flat().map((n) => (n === 0 ? blank : symbolOf(n))).join("");
+}
+
+export function toSdk(board: Board, comment?: string): string {
+  const rows = board.map((row) => row.map((n) => (n === 0 ? "." : symbolOf(n))).join(""));
+  return [...(comment ? [`#C ${comment}`] : []), ...rows].join("\n");
+}
+
+export type SharedGame = { puzzle: Board; board: Board; rules: Rules };
+
+export type SharedParams = { puzzle?: string; progress?: string; size?: string; mode?: string };
+
+// por qué no se puede cargar la partida de un enlace
+export type SharedError =
+  | { code: "puzzle"; error: ParseError }
+  | { code: "progress"; error: ParseError }
+  | { code: "mismatch" };
+
+// null en Killer: las jaulas no caben en el enlace
+export function encodeShared(puzzle: Board, board: Board, rules: Rules): Record<string, string> | null {
+  if (rules.cages.length > 0) return null;
+  const params: Record<string, string> = { puzzle: toLine(puzzle, "0"), progress: toLine(board, "0") };
+  if (rules.size !== 9) params.size = String(rules.size);
+  if (rules.diagonal) params.mode = "diagonal";
+  return params;
+}
+
+// null si la URL no trae puzzle; si lo trae pero no es válido, { error }
+export function decodeShared(params: SharedParams): SharedGame | { error: SharedError } | null {
+  if (!params.puzzle) return null;
+  const kind: VariantKind = params.mode === "diagonal" ? "diagonal" : "classic";
+  const rules = makeRules({ size: params.size ? parseInt(params.size, 10) : 9, kind });
+
+  const puzzle = parseSudoku(params.puzzle, rules);
+  if (!puzzle.ok) return { error: { code: "puzzle", error: puzzle.error } };
+  if (!params.progress) return { puzzle: puzzle.board, board: puzzle.board.map((r) => r.slice()), rules };
+
+  const progress = parseSudoku(params.progress, rules, true);
+  if (!progress.ok) return { error: { code: "progress", error: progress.error } };
+  const mismatch = puzzle.board.some((row, r) => row.some((v, c) => v !== 0 && progress.board[r][c] !== v));
+  if (mismatch) return { error: { code: "mismatch" } };
+  return { puzzle: puzzle.board, board: progress.board, rules };
+}
+
+export function sharedErrorMessage(error: SharedError, t: Messages): string {
+  const messages = t.sudoku.parseErrors;
+  switch (error.code) {
+    case "puzzle":
+      return messages.sharedPuzzle(parseErrorMessage(error.error, t));
+    case "progress":
+      return messages.sharedProgress(parseErrorMessage(error.error, t));
+    case "mismatch":
+      return messages.sharedMismatch;
+  }
+}
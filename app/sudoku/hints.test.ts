@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { MESSAGES } from "../componentes/idioma";
+import {
+  applyStep,
+  computeCandidates,
+  findNextStep,
+  generateGradedPuzzle,
+  getHint,
+  rateDifficulty,
+  stepExplanation,
+} from "./hints";
+import { type Board, cloneBoard, emptyBoard, isValidPlacement, STARTING_BOARD } from "./sudoku";
+
+// candidatos a mano sobre un tablero vacío: todos los números en todas las celdas salvo lo que se quite
+const ALL = 0b1111111110;
+const bit = (n: number) => 1 << n;
+
+function fullCandidates() {
+  return Array.from({ length: 9 }, () => Array<number>(9).fill(ALL));
+}
+
+describe("técnicas", () => {
+  it("single desnudo: la celda con un solo candidato", () => {
+    const cands = fullCandidates();
+    cands[4][4] = bit(5);
+    const step = findNextStep(emptyBoard(9), cands);
+    expect(step?.technique).toBe("naked-single");
+    expect(step?.placement).toEqual({ row: 4, col: 4, value: 5 });
+    expect(step?.reason).toEqual({ kind: "naked-single", cell: [4, 4], value: 5 });
+  });
+
+  it("single oculto: el número que solo cabe en una celda de la fila", () => {
+    const cands = fullCandidates();
+    for (let c = 0; c < 9; c++) if (c !== 3) cands[0][c] &= ~bit(7);
+    const step = findNextStep(emptyBoard(9), cands);
+    expect(step?.technique).toBe("hidden-single");
+    expect(step?.placement).toEqual({ row: 0, col: 3, value: 7 });
+    expect(step?.reason).toMatchObject({ kind: "hidden-single", unit: { kind: "row", index: 0 } });
+  });
+
+  it("pareja desnuda: quita sus dos números del resto de la fila", () => {
+    const cands = fullCandidates();
+    cands[0][0] = cands[0][1] = bit(1) | bit(2);
+    const step = findNextStep(emptyBoard(9), cands);
+    expect(step?.technique).toBe("naked-pair");
+    expect(step?.cells).toEqual([[0, 0], [0, 1]]);
+    expect(step?.eliminations).toHaveLength(14);
+    expect(step?.eliminations.every((e) => e.row === 0 && e.col > 1 && (e.value === 1 || e.value === 2))).toBe(true);
+  });
+
+  it("par apuntador: dentro de la caja el número solo está en una fila", () => {
+    const cands = fullCandidates();
+    for (const r of [1, 2]) for (const c of [0, 1, 2]) cands[r][c] &= ~bit(5);
+    const step = findNextStep(emptyBoard(9), cands);
+    expect(step?.technique).toBe("pointing");
+    expect(step?.reason).toMatchObject({ kind: "intersection", from: { kind: "box", index: 0 }, to: { kind: "row", index: 0 } });
+    expect(step?.eliminations.map((e) => e.col)).toEqual([3, 4, 5, 6, 7, 8]);
+  });
+
+  it("X-Wing: dos filas con el número en las mismas dos columnas", () => {
+    const cands = fullCandidates();
+    for (const r of [1, 4]) for (let c = 0; c < 9; c++) if (c !== 2 && c !== 6) cands[r][c] &= ~bit(3);
+    const step = findNextStep(emptyBoard(9), cands);
+    expect(step?.technique).toBe("x-wing");
+    expect(step?.reason).toEqual({ kind: "x-wing", rows: true, lines: [1, 4], value: 3 });
+    // columnas 2 y 6 en las otras siete filas
+    expect(step?.eliminations).toHaveLength(14);
+  });
+
+  it("applyStep coloca el número y lo quita de los candidatos de sus vecinas", () => {
+    const board = emptyBoard(9);
+    const cands = fullCandidates();
+    cands[4][4] = bit(5);
+    applyStep(board, cands, findNextStep(board, cands)!);
+    expect(board[4][4]).toBe(5);
+    expect(cands[4][0] & bit(5)).toBe(0);
+    expect(cands[0][0] & bit(5)).not.toBe(0);
+  });
+});
+
+describe("pistas", () => {
+  it("la pista acaba en una celda que se puede colocar y es correcta", () => {
+    const steps = getHint(STARTING_BOARD)!;
+    const { row, col, value } = steps.at(-1)!.placement!;
+    expect(STARTING_BOARD[row][col]).toBe(0);
+    expect(isValidPlacement(STARTING_BOARD, row, col, value)).toBe(true);
+  });
+
+  it("sin pista si hay conflictos", () => {
+    const board: Board = cloneBoard(STARTING_BOARD);
+    board[0][2] = 5;
+    expect(getHint(board)).toBeNull();
+  });
+
+  it("los candidatos iniciales respetan las pistas", () => {
+    const cands = computeCandidates(STARTING_BOARD);
+    expect(cands[0][0]).toBe(0); // celda con pista
+    expect(cands[0][2] & bit(5)).toBe(0); // el 5 ya está en la fila
+  });
+
+  it("explica el paso en el idioma de la interfaz", () => {
+    const cands = fullCandidates();
+    for (let c = 0; c < 9; c++) if (c !== 3) cands[0][c] &= ~bit(7);
+    const step = findNextStep(emptyBoard(9), cands)!;
+    expect(stepExplanation(step, MESSAGES.es)).toBe("En la fila 1 el 7 solo cabe en (f1, c4).");
+    expect(stepExplanation(step, MESSAGES.en)).toBe("In row 1, 7 only fits in (r1, c4).");
+  });
+});
+
+describe("rateDifficulty", () => {
+  it("el puzzle de ejemplo se resuelve con técnicas fáciles", () => {
+    expect(rateDifficulty(STARTING_BOARD)).toMatchObject({ difficulty: "easy", solved: true });
+  });
+
+  it("un tablero vacío no se puede resolver solo con lógica", () => {
+    expect(rateDifficulty(emptyBoard(9))).toMatchObject({ difficulty: "expert", solved: false });
+  });
+});
+
+describe("generateGradedPuzzle", () => {
+  it("sin intentos de valorar sigue devolviendo un puzzle", () => {
+    const { puzzle } = generateGradedPuzzle("easy", { attempts: 0 });
+    expect(puzzle).toHaveLength(9);
+  });
+});
@@ -0,0 +1,395 @@
+// hints.ts
+// Solucionador "humano" por técnicas para dar pistas y valorar la dificultad de un puzzle.
+// - Candidatos como máscara de bits por celda (bit n = el número n es posible)
+// - Técnicas en orden de dificultad: singles, parejas/tríos, pointing, box-line, X-Wing
+// - Trabaja sobre las unidades de la variante (diagonales y jaulas incluidas)
+// - Cada paso lleva las celdas implicadas y el motivo de la deducción; stepExplanation lo pone en palabras
+
+import type { Messages } from "../componentes/idioma";
+import {
+  type Board,
+  CLASSIC,
+  cloneBoard,
+  countSolutions,
+  DIFFICULTIES,
+  type Difficulty,
+  findConflicts,
+  type GenerateOptions,
+  generatePuzzle,
+  type GeneratedPuzzle,
+  geometry,
+  isValidPlacement,
+  type Pos,
+  type Rules,
+  symbolOf,
+  type Unit,
+} from "./sudoku";
+
+export type Candidates = number[][];
+
+export type Technique =
+  | "naked-single"
+  | "hidden-single"
+  | "naked-pair"
+  | "hidden-pair"
+  | "pointing"
+  | "box-line"
+  | "naked-triple"
+  | "hidden-triple"
+  | "x-wing";
+
+// dificultad de cada técnica (sus nombres están en los catálogos de textos de la interfaz)
+export const TECHNIQUES: Record<Technique, { level: Difficulty }> = {
+  "naked-single": { level: "easy" },
+  "hidden-single": { level: "easy" },
+  "naked-pair": { level: "medium" },
+  "hidden-pair": { level: "medium" },
+  pointing: { level: "medium" },
+  "box-line": { level: "medium" },
+  "naked-triple": { level: "hard" },
+  "hidden-triple": { level: "hard" },
+  "x-wing": { level: "expert" },
+};
+
+export type CandidateChange = { row: number; col: number; value: number };
+
+// Datos de la deducción para explicarla (los números son valores, no símbolos)
+export type StepReason =
+  | { kind: "naked-single"; cell: Pos; value: number }
+  | { kind: "hidden-single"; unit: Unit; value: number; cell: Pos }
+  | { kind: "naked-subset"; cells: Pos[]; values: number[]; unit: Unit }
+  | { kind: "hidden-subset"; unit: Unit; values: number[]; cells: Pos[] }
+  | { kind: "intersection"; from: Unit; to: Unit; value: number }
+  | { kind: "x-wing"; rows: boolean; lines: [number, number]; value: number }; // lines desde 0
+
+export type SolveStep = {
+  technique: Technique;
+  placement: CandidateChange | null;
+  eliminations: CandidateChange[];
+  cells: Pos[]; // celdas que justifican la deducción
+  reason: StepReason;
+};
+
+const bit = (n: number) => 1 << n;
+
+function bitCount(mask: number) {
+  let n = 0;
+  for (let m = mask; m; m &= m - 1) n++;
+  return n;
+}
+
+function digitsOf(mask: number): number[] {
+  const res: number[] = [];
+  for (let n = 1; bit(n) <= mask; n++) if (mask & bit(n)) res.push(n);
+  return res;
+}
+
+const inUnit = (unit: Unit, [r, c]: Pos) => unit.cells.some(([ur, uc]) => ur === r && uc === c);
+
+function combinations<T>(items: T[], k: number): T[][] {
+  if (k === 0) return [[]];
+  const res: T[][] = [];
+  for (let i = 0; i <= items.length - k; i++)
+    for (const rest of combinations(items.slice(i + 1), k - 1)) res.push([items[i], ...rest]);
+  return res;
+}
+
+export function computeCandidates(board: Board, rules: Rules = CLASSIC): Candidates {
+  return board.map((row, r) =>
+    row.map((v, c) => {
+      if (v !== 0) return 0;
+      let mask = 0;
+      for (let n = 1; n <= rules.size; n++) if (isValidPlacement(board, r, c, n, rules)) mask |= bit(n);
+      return mask;
+    })
+  );
+}
+
+function findNakedSingle(board: Board, cands: Candidates): SolveStep | null {
+  for (let r = 0; r < board.length; r++)
+    for (let c = 0; c < board.length; c++) {
+      if (board[r][c] !== 0 || bitCount(cands[r][c]) !== 1) continue;
+      const value = digitsOf(cands[r][c])[0];
+      return {
+        technique: "naked-single",
+        placement: { row: r, col: c, value },
+        eliminations: [],
+        cells: [[r, c]],
+        reason: { kind: "naked-single", cell: [r, c], value },
+      };
+    }
+  return null;
+}
+
+function findHiddenSingle(board: Board, cands: Candidates, units: Unit[]): SolveStep | null {
+  for (const unit of units) {
+    if (!unit.complete) continue;
+    for (let n = 1; n <= board.length; n++) {
+      const spots = unit.cells.filter(([r, c]) => board[r][c] === 0 && cands[r][c] & bit(n));
+      if (spots.length !== 1) continue;
+      const [r, c] = spots[0];
+      return {
+        technique: "hidden-single",
+        placement: { row: r, col: c, value: n },
+        eliminations: [],
+        cells: unit.cells,
+        reason: { kind: "hidden-single", unit, value: n, cell: [r, c] },
+      };
+    }
+  }
+  return null;
+}
+
+function findNakedSubset(board: Board, cands: Candidates, units: Unit[], size: 2 | 3): SolveStep | null {
+  for (const unit of units) {
+    const open = unit.cells.filter(([r, c]) => board[r][c] === 0 && bitCount(cands[r][c]) <= size);
+    for (const group of combinations(open, size)) {
+      const union = group.reduce((m, [r, c]) => m | cands[r][c], 0);
+      if (bitCount(union) !== size) continue;
+      const eliminations: CandidateChange[] = [];
+      for (const [r, c] of unit.cells) {
+        if (board[r][c] !== 0 || group.some(([gr, gc]) => gr === r && gc === c)) continue;
+        for (const n of digitsOf(cands[r][c] & union)) eliminations.push({ row: r, col: c, value: n });
+      }
+      if (eliminations.length === 0) continue;
+      return {
+        technique: size === 2 ? "naked-pair" : "naked-triple",
+        placement: null,
+        eliminations,
+        cells: group,
+        reason: { kind: "naked-subset", cells: group, values: digitsOf(union), unit },
+      };
+    }
+  }
+  return null;
+}
+
+function findHiddenSubset(board: Board, cands: Candidates, units: Unit[], size: 2 | 3): SolveStep | null {
+  for (const unit of units) {
+    if (!unit.complete) continue;
+    const open = unit.cells.filter(([r, c]) => board[r][c] === 0);
+    const digits = Array.from({ length: board.length }, (_, i) => i + 1).filter((n) =>
+      open.some(([r, c]) => cands[r][c] & bit(n))
+    );
+    for (const group of combinations(digits, size)) {
+      const mask = group.reduce((m, n) => m | bit(n), 0);
+      const spots = open.filter(([r, c]) => cands[r][c] & mask);
+      if (spots.length !== size) continue;
+      const eliminations: CandidateChange[] = [];
+      for (const [r, c] of spots)
+        for (const n of digitsOf(cands[r][c] & ~mask)) eliminations.push({ row: r, col: c, value: n });
+      if (eliminations.length === 0) continue;
+      return {
+        technique: size === 2 ? "hidden-pair" : "hidden-triple",
+        placement: null,
+        eliminations,
+        cells: spots,
+        reason: { kind: "hidden-subset", unit, values: group, cells: spots },
+      };
+    }
+  }
+  return null;
+}
+
+// Intersecciones: si dentro de una unidad completa un número solo cabe en celdas que también son de
+// otra unidad, se quita del resto de esa otra unidad. Desde una caja es "pointing"
+// (caja → fila/columna/diagonal); desde una línea es "box-line" (fila/columna/diagonal → caja u otra).
+function findIntersection(
+  board: Board,
+  cands: Candidates,
+  units: Unit[],
+  technique: "pointing" | "box-line"
+): SolveStep | null {
+  for (const from of units) {
+    if (!from.complete || (from.kind === "box") !== (technique === "pointing")) continue;
+    for (let n = 1; n <= board.length; n++) {
+      const spots = from.cells.filter(([r, c]) => board[r][c] === 0 && cands[r][c] & bit(n));
+      if (spots.length < 2) continue;
+      for (const to of units) {
+        if (to === from || !spots.every((p) => inUnit(to, p))) continue;
+        const eliminations = to.cells
+          .filter((p) => !inUnit(from, p))
+          .filter(([r, c]) => board[r][c] === 0 && cands[r][c] & bit(n))
+          .map(([r, c]) => ({ row: r, col: c, value: n }));
+        if (eliminations.length === 0) continue;
+        return {
+          technique,
+          placement: null,
+          eliminations,
+          cells: spots,
+          reason: { kind: "intersection", from, to, value: n },
+        };
+      }
+    }
+  }
+  return null;
+}
+
+function findXWing(board: Board, cands: Candidates, units: Unit[]): SolveStep | null {
+  const rows = units.filter((u) => u.kind === "row");
+  const cols = units.filter((u) => u.kind === "col");
+  const size = board.length;
+  // por filas (base) eliminando en columnas, y al revés
+  for (const [bases, covers, byRows] of [
+    [rows, cols, true],
+    [cols, rows, false],
+  ] as [Unit[], Unit[], boolean][]) {
+    for (let n = 1; n <= size; n++) {
+      // para cada línea base, índices (dentro de la línea) donde cabe n si son exactamente 2
+      const pairs = bases.map((u) =>
+        u.cells.map(([r, c], i) => (board[r][c] === 0 && cands[r][c] & bit(n) ? i : -1)).filter((i) => i >= 0)
+      );
+      for (let a = 0; a < size; a++) {
+        if (pairs[a].length !== 2) continue;
+        for (let b = a + 1; b < size; b++) {
+          if (pairs[b].length !== 2 || pairs[b][0] !== pairs[a][0] || pairs[b][1] !== pairs[a][1]) continue;
+          const eliminations: CandidateChange[] = [];
+          for (const i of pairs[a])
+            covers[i].cells.forEach(([r, c], j) => {
+              if (j === a || j === b) return;
+              if (board[r][c] === 0 && cands[r][c] & bit(n)) eliminations.push({ row: r, col: c, value: n });
+            });
+          if (eliminations.length === 0) continue;
+          const cells = [a, b].flatMap((k) => pairs[k].map((i) => bases[k].cells[i]));
+          return {
+            technique: "x-wing",
+            placement: null,
+            eliminations,
+            cells,
+            reason: { kind: "x-wing", rows: byRows, lines: [a, b], value: n },
+          };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+const cellText = ([r, c]: Pos, t: Messages) => t.sudoku.cellName(r + 1, c + 1);
+
+export function unitName(unit: Unit, t: Messages): string {
+  const { units } = t.sudoku;
+  if (unit.kind === "cage") return units.cage(unit.index + 1, unit.sum ?? 0);
+  return units[unit.kind](unit.index + 1);
+}
+
+// Explicación del paso en el idioma de la interfaz
+export function stepExplanation({ reason }: SolveStep, t: Messages): string {
+  const { reasons } = t.sudoku;
+  const cells = (list: Pos[]) => list.map((p) => cellText(p, t)).join(", ");
+  const values = (list: number[]) => list.map(symbolOf).join(", ");
+  switch (reason.kind) {
+    case "naked-single":
+      return reasons.nakedSingle(cellText(reason.cell, t), symbolOf(reason.value));
+    case "hidden-single":
+      return reasons.hiddenSingle(unitName(reason.unit, t), symbolOf(reason.value), cellText(reason.cell, t));
+    case "naked-subset":
+      return reasons.nakedSubset(cells(reason.cells), values(reason.values), unitName(reason.unit, t));
+    case "hidden-subset":
+      return reasons.hiddenSubset(unitName(reason.unit, t), values(reason.values), cells(reason.cells));
+    case "intersection":
+      return reasons.intersection(unitName(reason.from, t), symbolOf(reason.value), unitName(reason.to, t));
+    case "x-wing":
+      return reasons.xWing(reason.rows, reason.lines[0] + 1, reason.lines[1] + 1, symbolOf(reason.value));
+  }
+}
+
+// Busca la siguiente deducción probando las técnicas de más fácil a más difícil
+export function findNextStep(board: Board, cands: Candidates, rules: Rules = CLASSIC): SolveStep | null {
+  const { units } = geometry(rules);
+  return (
+    findNakedSingle(board, cands) ??
+    findHiddenSingle(board, cands, units) ??
+    findNakedSubset(board, cands, units, 2) ??
+    findHiddenSubset(board, cands, units, 2) ??
+    findIntersection(board, cands, units, "pointing") ??
+    findIntersection(board, cands, units, "box-line") ??
+    findNakedSubset(board, cands, units, 3) ??
+    findHiddenSubset(board, cands, units, 3) ??
+    findXWing(board, cands, units)
+  );
+}
+
+// Aplica el paso sobre board/cands (muta ambos)
+export function applyStep(board: Board, cands: Candidates, step: SolveStep, rules: Rules = CLASSIC) {
+  for (const e of step.eliminations) cands[e.row][e.col] &= ~bit(e.value);
+  if (!step.placement) return;
+  const { row, col, value } = step.placement;
+  board[row][col] = value;
+  cands[row][col] = 0;
+  for (const [r, c] of geometry(rules).peers[row][col]) cands[r][c] &= ~bit(value);
+}
+
+function hasDeadCell(board: Board, cands: Candidates) {
+  return board.some((row, r) => row.some((v, c) => v === 0 && cands[r][c] === 0));
+}
+
+// Pasos desde el tablero actual hasta la siguiente celda que se puede colocar
+// (las eliminaciones previas incluidas). null si no hay deducción lógica disponible.
+export function getHint(board: Board, rules: Rules = CLASSIC): SolveStep[] | null {
+  if (findConflicts(board, rules).size > 0) return null;
+  const b = cloneBoard(board);
+  const cands = computeCandidates(b, rules);
+  const steps: SolveStep[] = [];
+  while (!hasDeadCell(b, cands)) {
+    const step = findNextStep(b, cands, rules);
+    if (!step) return null;
+    steps.push(step);
+    if (step.placement) return steps;
+    applyStep(b, cands, step, rules);
+  }
+  return null;
+}
+
+export type Rating = {
+  difficulty: Difficulty;
+  hardest: Technique | null;
+  solved: boolean; // false = hace falta algo más que estas técnicas (se cuenta como experto)
+};
+
+const levelIndex = (d: Difficulty) => DIFFICULTIES.findIndex((x) => x.id === d);
+
+export function rateDifficulty(puzzle: Board, rules: Rules = CLASSIC): Rating {
+  const b = cloneBoard(puzzle);
+  const cands = computeCandidates(b, rules);
+  let hardest: Technique | null = null;
+  while (b.some((row) => row.includes(0)) && !hasDeadCell(b, cands)) {
+    const step = findNextStep(b, cands, rules);
+    if (!step) return { difficulty: "expert", hardest, solved: false };
+    if (!hardest || levelIndex(TECHNIQUES[step.technique].level) > levelIndex(TECHNIQUES[hardest].level))
+      hardest = step.technique;
+    applyStep(b, cands, step, rules);
+  }
+  const solved = !b.some((row) => row.includes(0));
+  return { difficulty: hardest && solved ? TECHNIQUES[hardest].level : "expert", hardest, solved };
+}
+
+// Genera puzzles valorados con el solucionador por técnicas. Si en `attempts` intentos no sale
+// exactamente la dificultad pedida devuelve el más cercano (con su dificultad real).
+// En 16x16 y Killer valorar cada quita sería demasiado lento (o poco fiel): se usa solo el número de pistas.
+export function generateGradedPuzzle(
+  difficulty: Difficulty,
+  options: Omit<GenerateOptions, "rate"> & { attempts?: number } = {}
+): GeneratedPuzzle {
+  const { attempts = 5, ...generateOptions } = options;
+  const variant = generateOptions.variant;
+  if (variant && (variant.size > 9 || variant.kind === "killer")) return generatePuzzle(difficulty, generateOptions);
+
+  let closest: GeneratedPuzzle | null = null;
+  for (let i = 0; i < attempts; i++) {
+    const generated = generatePuzzle(difficulty, {
+      ...generateOptions,
+      rate: (p, rules) => rateDifficulty(p, rules).difficulty,
+    });
+    if (!closest || levelIndex(generated.difficulty) > levelIndex(closest.difficulty)) closest = generated;
+    if (generated.difficulty === difficulty) break;
+  }
+  // con attempts < 1 no se ha generado ninguno: uno sin valorar
+  if (!closest) return generatePuzzle(difficulty, generateOptions);
+  return closest;
+}
+
+// true si los valores colocados todavía permiten llegar a una solución
+export function isStillSolvable(board: Board, rules: Rules = CLASSIC) {
+  return countSolutions(board, 1, rules) > 0;
+}
@@ -0,0 +1,9 @@
+import { gameMetadata } from "../componentes/idioma-servidor";
+
+export function generateMetadata() {
+  return gameMetadata("sudoku");
+}
+
+export default function SudokuLayout({ children }: { children: React.ReactNode }) {
+  return children;
+}
@@ -0,0 +1,728 @@
+"use client";
+
+import React, { use, useEffect, useRef, useState } from "react";
+import { useNotices } from "../componentes/avisos";
+import { boardSudoku, type Entry } from "../componentes/clasificacion";
+import { loadSaved, saveGame } from "../componentes/storage";
+import {
+  type DailyResult,
+  dailyResults,
+  dailySeed,
+  dailySudokuDifficulty,
+  dayKey,
+  recordDaily,
+} from "../componentes/daily";
+import DailyPanel from "../componentes/reto";
+import ResultOverlay from "../componentes/resultado";
+import { useHydrated } from "../componentes/hidratado";
+import LeaderboardPanel from "../componentes/tabla-clasificacion";
+import { useI18n } from "../componentes/idioma-cliente";
+import { recordEvent, unlockedMessage } from "../componentes/stats";
+import { formatTime, useElapsed } from "../componentes/timer";
+import {
+  type Board,
+  CLASSIC,
+  cloneBoard,
+  cloneNotes,
+  DIFFICULTIES,
+  type Difficulty,
+  emptyNotes,
+  findConflicts,
+  geometry,
+  isSolved,
+  makeRules,
+  type Notes,
+  noteValues,
+  placeValue,
+  removeNoteFromPeers,
+  type Rules,
+  SIZES,
+  STARTING_BOARD,
+  symbolOf,
+  toggleNote,
+  valueOf,
+  type Variant,
+  type VariantKind,
+  variantOf,
+  VARIANTS,
+} from "./sudoku";
+import {
+  computeCandidates,
+  getHint,
+  isStillSolvable,
+  rateDifficulty,
+  type SolveStep,
+  stepExplanation,
+} from "./hints";
+import {
+  decodeShared,
+  encodeShared,
+  parseErrorMessage,
+  parseSudoku,
+  sharedErrorMessage,
+  toLine,
+  toSdk,
+} from "./format";
+import type { SolverJob, SolverReply } from "./worker";
+
+// Sudoku.tsx
+// Componente React (TypeScript) sencillo para renderizar y jugar un Sudoku.
+// - Tablero inicial fijo (0 = vacío) y generador de puzzles por dificultad
+// - Variantes: 4x4, 6x6, 9x9 y 16x16; X-Sudoku (diagonales sombreadas) y Killer (jaulas con su suma)
+// - Permite ingresar números en celdas vacías (A-G para 10-16), o anotar candidatos en modo notas
+// - Botones: Nuevo juego, Pista, Comprobar, Deshacer, Reiniciar, Solucionar
+// - Importar/exportar en texto (línea o SDK) y enlace con ?puzzle=...&progress=...
+// - Resalta conflictos (filas, columnas, cajas, diagonales, jaulas) y las celdas implicadas en la pista
+// - Resolver, comprobar importaciones y generar se hace en un Web Worker que se puede cancelar
+// - La partida a medias (tablero, notas, historial y tiempo) se guarda en localStorage y se restaura
+//   al volver, salvo que se abra un enlace compartido
+// - Reto diario: 9x9 clásico generado con una semilla sacada de la fecha (igual para todos ese día)
+// - Clasificación por puzzle (menos Killer): se envía el tablero resuelto con su tiempo si se resolvió sin Solucionar
+// - Accesible con teclado (flechas entre celdas) y lector de pantalla (rejilla ARIA con etiqueta por celda)
+
+type SearchParams = { [key: string]: string | string[] | undefined };
+
+// resultado de una entrada de la clasificación
+function formatEntry(e: Entry) {
+  return formatTime(e.primary);
+}
+
+// desplazamiento [fila, columna] de cada flecha
+const ARROWS: Record<string, [number, number]> = {
+  ArrowUp: [-1, 0],
+  ArrowDown: [1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1],
+};
+
+const firstParam = (v: string | string[] | undefined) => (Array.isArray(v) ? v[0] : v);
+
+// la partida guardada se lee al montar el juego, que solo se monta en el navegador ya hidratado
+export default function SudokuPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  return useHydrated() ? <Sudoku searchParams={searchParams} /> : null;
+}
+
+function Sudoku({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const params = use(searchParams);
+  const { t } = useI18n();
+  const { notify, confirm } = useNotices();
+  // partida compartida por enlace; { error } es el error que se muestra al cargar
+  const [shared] = useState(() =>
+    decodeShared({
+      puzzle: firstParam(params.puzzle),
+      progress: firstParam(params.progress),
+      size: firstParam(params.size),
+      mode: firstParam(params.mode),
+    })
+  );
+  const sharedGame = shared && !("error" in shared) ? shared : null;
+  // partida a medias de la visita anterior (un enlace compartido tiene prioridad)
+  const [saved] = useState(() => (sharedGame ? null : loadSaved().sudoku.current));
+
+  // puzzle = pistas de la partida actual (STARTING_BOARD hasta pulsar "Nuevo juego" o importar)
+  const [puzzle, setPuzzle] = useState<Board>(() => cloneBoard(sharedGame?.puzzle ?? saved?.puzzle ?? STARTING_BOARD));
+  const [board, setBoard] = useState<Board>(() => cloneBoard(sharedGame?.board ?? saved?.board ?? STARTING_BOARD));
+  // reglas de la partida actual; `variant` es lo elegido para la siguiente
+  const [rules, setRules] = useState<Rules>(() => sharedGame?.rules ?? saved?.rules ?? CLASSIC);
+  const [variant, setVariant] = useState<Variant>(() => variantOf(sharedGame?.rules ?? saved?.rules ?? CLASSIC));
+  const [notes, setNotes] = useState<Notes>(() => saved?.notes ?? emptyNotes(sharedGame?.rules.size));
+  // cada cambio guarda el tablero y las notas anteriores para poder deshacer
+  const [history, setHistory] = useState<{ board: Board; notes: Notes }[]>(saved?.history ?? []);
+  const [notesMode, setNotesMode] = useState(false);
+  const [autoClearNotes, setAutoClearNotes] = useState(true);
+  const [conflicts, setConflicts] = useState<Set<string>>(new Set());
+  const [difficulty, setDifficulty] = useState<Difficulty>("medium");
+  const [puzzleDifficulty, setPuzzleDifficulty] = useState<Difficulty>(
+    () => saved?.difficulty ?? rateDifficulty(sharedGame?.puzzle ?? STARTING_BOARD, sharedGame?.rules).difficulty
+  );
+  const [ioText, setIoText] = useState("");
+  const [ioMessage, setIoMessage] = useState<string | null>(() =>
+    shared && "error" in shared ? sharedErrorMessage(shared.error, t) : null
+  );
+  // pasos de la pista actual: las eliminaciones previas y al final la celda que se puede colocar
+  const [hint, setHint] = useState<SolveStep[] | null>(null);
+  const [hintMessage, setHintMessage] = useState<string | null>(null);
+  // trabajo en curso en el worker (solo uno a la vez) y el resultado de "Solucionar"
+  const [busy, setBusy] = useState<SolverJob["type"] | null>(null);
+  // cartel de victoria tras un "Comprobar" con el tablero resuelto; cualquier cambio lo quita
+  const [showSolved, setShowSolved] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  // celda que recibe el foco al entrar con Tab (foco itinerante: el resto del tablero se recorre con las flechas)
+  const [focusCell, setFocusCell] = useState<[number, number]>([0, 0]);
+  // el puzzle ya cuenta como resuelto en las estadísticas, o se resolvió con "Solucionar" y no cuenta
+  const [counted, setCounted] = useState(false);
+  // tiempo con el que se resolvió sin ayuda del solver (lo que se puede enviar a la clasificación)
+  const [solvedTime, setSolvedTime] = useState<number | null>(null);
+  // día del reto diario si la partida actual es ese reto, y su resultado guardado
+  const [daily, setDaily] = useState<string | null>(saved?.daily ?? null);
+  const [dailyResult, setDailyResult] = useState<DailyResult | null>(() =>
+    saved?.daily ? (dailyResults("sudoku")[saved.daily] ?? null) : null
+  );
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const { size, boxRows, boxCols } = rules;
+  const { cageOf } = geometry(rules);
+  const isClue = (r: number, c: number) => puzzle[r][c] !== 0;
+  const onDiagonal = (r: number, c: number) => rules.diagonal && (r === c || r + c === size - 1);
+  const focusRow = Math.min(focusCell[0], size - 1);
+  const focusCol = Math.min(focusCell[1], size - 1);
+
+  const solved = isSolved(board, rules);
+  const mode = rules.diagonal ? "diagonal" : "classic";
+  // empezada: con algún cambio o con un puzzle distinto del inicial (generado, importado o compartido)
+  const started = history.length > 0 || toLine(puzzle) !== toLine(STARTING_BOARD);
+  const [elapsed, setElapsed] = useElapsed(saved?.elapsed ?? 0, history.length > 0 && !solved);
+
+  // se guarda la partida mientras esté empezada y sin resolver
+  useEffect(() => {
+    saveGame("sudoku", {
+      current:
+        started && !solved
+          ? { puzzle, board, rules, notes, history, difficulty: puzzleDifficulty, elapsed, daily: daily ?? undefined }
+          : null,
+    });
+  }, [started, solved, puzzle, board, rules, notes, history, puzzleDifficulty, elapsed, daily]);
+
+  const hintTarget = hint?.[hint.length - 1].placement ?? null;
+  const hintCells = new Set(hint?.flatMap((step) => step.cells.map(([r, c]) => `${r},${c}`)) ?? []);
+
+  // lanza un trabajo en un worker nuevo; si había otro en curso se descarta
+  function runInWorker<T extends SolverJob["type"]>(
+    job: Extract<SolverJob, { type: T }>,
+    onReply: (reply: Extract<SolverReply, { type: T }>) => void
+  ) {
+    cancelWorker();
+    const worker = new Worker(new URL("./worker.ts", import.meta.url));
+    workerRef.current = worker;
+    setBusy(job.type);
+    worker.onmessage = (e: MessageEvent<Extract<SolverReply, { type: T }>>) => {
+      worker.terminate();
+      workerRef.current = null;
+      setBusy(null);
+      onReply(e.data);
+    };
+    worker.onerror = () => {
+      worker.terminate();
+      workerRef.current = null;
+      setBusy(null);
+      notify(t.sudoku.solverFailed, "error");
+    };
+    worker.postMessage(job);
+  }
+
+  function cancelWorker() {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setBusy(null);
+  }
+
+  function clearHint() {
+    setHint(null);
+    setHintMessage(null);
+  }
+
+  // aplica un cambio de tablero/notas dejando el estado anterior en el historial
+  function commit(nextBoard: Board, nextNotes: Notes) {
+    setHistory((h) => [...h, { board: cloneBoard(board), notes: cloneNotes(notes) }].slice(-100));
+    setBoard(nextBoard);
+    setNotes(nextNotes);
+    // limpiamos conflictos en cada cambio (se recalcularán con "Comprobar")
+    setConflicts(new Set());
+    clearHint();
+    // una resolución en curso ya no corresponde al tablero
+    if (busy === "solve") cancelWorker();
+    setShowSolved(false);
+  }
+
+  function loadPuzzle(nextPuzzle: Board, nextBoard: Board, nextRules: Rules, rated: Difficulty) {
+    setPuzzle(nextPuzzle);
+    setBoard(nextBoard);
+    setRules(nextRules);
+    setNotes(emptyNotes(nextRules.size));
+    setHistory([]);
+    setPuzzleDifficulty(rated);
+    setElapsed(0);
+    setCounted(false);
+    setSolvedTime(null);
+    setDaily(null);
+    setDailyResult(null);
+    setConflicts(new Set());
+    clearHint();
+    setShowSolved(false);
+  }
+
+  function handleNewGame() {
+    runInWorker({ type: "generate", difficulty, variant }, ({ generated }) => {
+      loadPuzzle(generated.puzzle, cloneBoard(generated.puzzle), generated.rules, generated.difficulty);
+      setIoMessage(null);
+    });
+  }
+
+  function handleDaily() {
+    const day = dayKey();
+    const job = {
+      type: "generate",
+      difficulty: dailySudokuDifficulty(day),
+      variant: { size: 9, kind: "classic" },
+      seed: dailySeed("sudoku", day),
+    } as const;
+    runInWorker(job, ({ generated }) => {
+      loadPuzzle(generated.puzzle, cloneBoard(generated.puzzle), generated.rules, generated.difficulty);
+      setDaily(day);
+      setDailyResult(dailyResults("sudoku")[day] ?? null);
+      setIoMessage(null);
+    });
+  }
+
+  function handleImport() {
+    if (variant.kind === "killer") {
+      setIoMessage(t.sudoku.killerImport);
+      return;
+    }
+    const importRules = makeRules(variant);
+    const result = parseSudoku(ioText, importRules);
+    if (!result.ok) {
+      setIoMessage(parseErrorMessage(result.error, t));
+      return;
+    }
+    setIoMessage(t.sudoku.checkingPuzzle);
+    runInWorker({ type: "solve", board: result.board, rules: importRules, limit: 2 }, ({ report }) => {
+      if (report.count === 0) {
+        setIoMessage(t.sudoku.importUnsolvable);
+        return;
+      }
+      loadPuzzle(result.board, cloneBoard(result.board), importRules, rateDifficulty(result.board, importRules).difficulty);
+      setIoMessage(report.count > 1 ? t.sudoku.importedMultiple : t.sudoku.imported);
+    });
+  }
+
+  function handleExport(format: "line" | "sdk") {
+    setIoText(format === "line" ? toLine(puzzle) : toSdk(puzzle));
+    setIoMessage(rules.cages.length > 0 ? t.sudoku.killerExport : null);
+  }
+
+  function handleShare() {
+    const shareParams = encodeShared(puzzle, board, rules);
+    if (!shareParams) {
+      setIoMessage(t.sudoku.killerShare);
+      return;
+    }
+    const url = new URL(window.location.href);
+    url.search = new URLSearchParams(shareParams).toString();
+    window.history.replaceState(null, "", url);
+    navigator.clipboard.writeText(url.toString()).then(
+      () => setIoMessage(t.sudoku.linkCopied),
+      () => setIoMessage(t.sudoku.link(url.toString()))
+    );
+  }
+
+  function handleHint() {
+    setHint(null);
+    if (board.flat().every((n) => n !== 0)) {
+      setHintMessage(t.sudoku.boardFull);
+      return;
+    }
+    if (findConflicts(board, rules).size > 0) {
+      setHintMessage(t.sudoku.hintConflicts);
+      return;
+    }
+    if (!isStillSolvable(board, rules)) {
+      setHintMessage(t.sudoku.hintWrong);
+      return;
+    }
+    const steps = getHint(board, rules);
+    if (!steps) {
+      setHintMessage(t.sudoku.hintStuck);
+      return;
+    }
+    setHint(steps);
+    setHintMessage(null);
+  }
+
+  function handleChange(r: number, c: number, raw: string) {
+    const symbols = Array.from(raw).filter((ch) => valueOf(ch) >= 1 && valueOf(ch) <= size);
+    const val = symbols.length === 0 ? 0 : valueOf(symbols[symbols.length - 1]);
+    // en modo notas un número sobre una celda vacía activa/desactiva ese candidato
+    if (notesMode && val !== 0 && board[r][c] === 0) {
+      commit(board, toggleNote(notes, r, c, val));
+      return;
+    }
+    const next = placeValue(puzzle, board, r, c, val);
+    if (!next) return;
+    commit(next, val !== 0 && autoClearNotes ? removeNoteFromPeers(notes, r, c, val, rules) : notes);
+  }
+
+  function focusAt(r: number, c: number) {
+    if (r < 0 || c < 0 || r >= size || c >= size) return;
+    gridRef.current?.querySelector<HTMLInputElement>(`input[data-pos="${r},${c}"]`)?.focus();
+  }
+
+  function handleKeyDown(r: number, c: number, e: React.KeyboardEvent<HTMLInputElement>) {
+    const step = ARROWS[e.key];
+    if (step || e.key === "Home" || e.key === "End") {
+      e.preventDefault();
+      if (step) focusAt(r + step[0], c + step[1]);
+      else focusAt(r, e.key === "Home" ? 0 : size - 1);
+      return;
+    }
+    // borrar en una celda vacía con notas limpia sus candidatos
+    if ((e.key === "Backspace" || e.key === "Delete") && board[r][c] === 0 && notes[r][c] !== 0) {
+      const next = cloneNotes(notes);
+      next[r][c] = 0;
+      commit(board, next);
+    }
+  }
+
+  function handleFillNotes() {
+    commit(board, computeCandidates(board, rules));
+  }
+
+  function handleUndo() {
+    if (history.length === 0) return;
+    const last = history[history.length - 1];
+    setHistory(history.slice(0, -1));
+    setBoard(last.board);
+    setNotes(last.notes);
+    setConflicts(new Set());
+    clearHint();
+    setShowSolved(false);
+  }
+
+  function handleCheck() {
+    const c = findConflicts(board, rules);
+    setConflicts(c);
+    if (c.size === 0 && board.flat().every((n) => n !== 0)) {
+      let achievements: string | null = null;
+      if (!counted) {
+        setCounted(true);
+        setSolvedTime(elapsed);
+        const { size: s, kind } = variantOf(rules);
+        achievements = unlockedMessage(
+          recordEvent({ game: "sudoku", type: "solved", difficulty: puzzleDifficulty, size: s, kind, elapsed }),
+          t
+        );
+        if (daily) {
+          setDailyResult(
+            recordDaily("sudoku", daily, t.sudoku.dailyResult(formatTime(elapsed), t.sudoku.difficulties[puzzleDifficulty]))
+          );
+        }
+      }
+      setShowSolved(true);
+      if (achievements) notify(achievements, "success");
+    } else if (c.size === 0) {
+      notify(t.sudoku.incompleteAlert, "success");
+    } else {
+      notify(t.sudoku.conflictsAlert, "error");
+    }
+  }
+
+  function handleReset() {
+    confirm(t.sudoku.confirmReset, t.sudoku.reset).then((ok) => ok && commit(cloneBoard(puzzle), emptyNotes(size)));
+  }
+
+  function handleSolve() {
+    // Resolver a partir del tablero actual, contando hasta 2 soluciones para avisar si no es única.
+    clearHint();
+    if (findConflicts(board, rules).size > 0) {
+      notify(t.sudoku.solveConflicts, "warning");
+      return;
+    }
+    confirm(t.sudoku.confirmSolve, t.sudoku.solve).then((ok) => {
+      if (!ok) return;
+      runInWorker({ type: "solve", board, rules, limit: 2 }, ({ report }) => {
+        if (!report.solution) {
+          notify(t.sudoku.solveNoSolution, "error");
+          return;
+        }
+        commit(report.solution, notes);
+        setCounted(true);
+        if (report.count > 1) notify(t.sudoku.solveMultiple, "warning");
+      });
+    });
+  }
+
+  const cellSize = size > 9 ? "w-8 h-8 text-sm leading-8" : "w-10 h-10 text-lg leading-10";
+
+  return (
+    <div className="p-4 max-w-xl mx-auto">
+      <h2 className="text-2xl font-semibold mb-4">Sudoku (TSX)</h2>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <select
+          value={variant.size}
+          onChange={(e) => setVariant((v) => ({ ...v, size: parseInt(e.target.value, 10) }))}
+          className="px-2 py-2 rounded border"
+          aria-label={t.sudoku.size}
+        >
+          {SIZES.map((s) => (
+            <option key={s.size} value={s.size}>
+              {s.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={variant.kind}
+          onChange={(e) => setVariant((v) => ({ ...v, kind: e.target.value as VariantKind }))}
+          className="px-2 py-2 rounded border"
+          aria-label={t.sudoku.variant}
+        >
+          {VARIANTS.map((v) => (
+            <option key={v} value={v}>
+              {t.sudoku.variants[v]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={difficulty}
+          onChange={(e) => setDifficulty(e.target.value as Difficulty)}
+          className="px-2 py-2 rounded border"
+          aria-label={t.sudoku.difficulty}
+        >
+          {DIFFICULTIES.map((d) => (
+            <option key={d.id} value={d.id}>
+              {t.sudoku.difficulties[d.id]}
+            </option>
+          ))}
+        </select>
+        <button onClick={handleNewGame} className="px-3 py-2 rounded shadow-sm border" disabled={busy !== null}>
+          {busy === "generate" ? t.sudoku.generating : t.sudoku.newGame}
+        </button>
+        <button onClick={handleDaily} className="px-3 py-2 rounded shadow-sm border" disabled={busy !== null}>
+          {t.daily.button}
+        </button>
+        <span className="text-sm text-gray-600">
+          {t.sudoku.status(t.sudoku.difficulties[puzzleDifficulty], formatTime(elapsed))}
+        </span>
+      </div>
+      {daily && <DailyPanel game="sudoku" day={daily} result={dailyResult} />}
+      <div className="relative w-fit">
+        <div
+          ref={gridRef}
+          role="grid"
+          aria-label={t.sudoku.board}
+          className="grid gap-0 border-2 border-gray-300 w-fit"
+          style={{ lineHeight: 0, gridTemplateColumns: `repeat(${size}, auto)` }}
+        >
+          {board.map((row, r) => (
+            <div key={r} role="row" className="contents">
+              {row.map((cell, c) => {
+                const key = `${r}-${c}`;
+                const readOnly = isClue(r, c);
+                const posKey = `${r},${c}`;
+                const hasConflict = conflicts.has(posKey);
+                const isHintTarget = hintTarget?.row === r && hintTarget?.col === c;
+                const background = isHintTarget
+                  ? "bg-green-100"
+                  : hintCells.has(posKey)
+                    ? "bg-yellow-100"
+                    : readOnly
+                      ? "bg-gray-100"
+                      : onDiagonal(r, c)
+                        ? "bg-blue-50"
+                        : "bg-white";
+                // en alto contraste los estados no dependen del color: conflicto con borde discontinuo y "!",
+                // pista con borde doble y celdas implicadas con borde punteado
+                const contrast = hasConflict
+                  ? "contraste:outline-dashed contraste:outline-2 contraste:-outline-offset-4 contraste:outline-black"
+                  : isHintTarget
+                    ? "contraste:outline-double contraste:outline-4 contraste:-outline-offset-4 contraste:outline-black"
+                    : hintCells.has(posKey)
+                      ? "contraste:outline-dotted contraste:outline-2 contraste:-outline-offset-4 contraste:outline-black"
+                      : "";
+                const baseClasses = `${cellSize} text-center outline-none p-0 border focus:ring-2 focus:ring-inset focus:ring-blue-500`;
+
+                const marks = cell === 0 ? noteValues(notes, r, c) : [];
+                // jaula de Killer: borde discontinuo en los lados que dan a otra jaula y la suma en su primera celda
+                const cage = cageOf[r][c];
+                const sameCage = (rr: number, cc: number) => !!cage && cageOf[rr]?.[cc] === cage;
+                const cageSum = cage && cage.cells.every(([cr, cc]) => cr > r || (cr === r && cc >= c)) ? cage.sum : null;
+                const label = [
+                  readOnly ? t.sudoku.clue(symbolOf(cell)) : cell === 0 ? t.sudoku.empty : symbolOf(cell),
+                  marks.length > 0 ? t.sudoku.notesList(marks.map(symbolOf).join(" ")) : null,
+                  hasConflict ? t.sudoku.conflict : null,
+                  isHintTarget ? t.sudoku.hintTarget : hintCells.has(posKey) ? t.sudoku.hintCell : null,
+                  cage ? t.sudoku.cage(cage.sum) : null,
+                ]
+                  .filter((part) => part !== null)
+                  .join(", ");
+
+                return (
+                  <div key={key} role="gridcell" className="relative">
+                    <input
+                      value={cell === 0 ? "" : symbolOf(cell)}
+                      readOnly={readOnly}
+                      onChange={(e) => handleChange(r, c, e.target.value)}
+                      onKeyDown={(e) => handleKeyDown(r, c, e)}
+                      onFocus={() => setFocusCell([r, c])}
+                      data-pos={posKey}
+                      tabIndex={r === focusRow && c === focusCol ? 0 : -1}
+                      aria-label={t.sudoku.cell(r + 1, c + 1, label)}
+                      aria-invalid={hasConflict || undefined}
+                      className={`${baseClasses} ${background} ${readOnly ? "font-medium contraste:bg-gray-300" : ""} ${hasConflict ? "border-red-500" : "border-gray-300"} ${contrast}`}
+                      style={{
+                        borderTopWidth: r % boxRows === 0 ? 2 : 1,
+                        borderLeftWidth: c % boxCols === 0 ? 2 : 1,
+                      }}
+                      inputMode={size > 9 ? "text" : "numeric"}
+                      maxLength={1}
+                    />
+                    {cage && (
+                      <div
+                        className="absolute pointer-events-none border-dashed border-gray-500"
+                        style={{
+                          top: sameCage(r - 1, c) ? 0 : 3,
+                          bottom: sameCage(r + 1, c) ? 0 : 3,
+                          left: sameCage(r, c - 1) ? 0 : 3,
+                          right: sameCage(r, c + 1) ? 0 : 3,
+                          borderTopWidth: sameCage(r - 1, c) ? 0 : 1,
+                          borderBottomWidth: sameCage(r + 1, c) ? 0 : 1,
+                          borderLeftWidth: sameCage(r, c - 1) ? 0 : 1,
+                          borderRightWidth: sameCage(r, c + 1) ? 0 : 1,
+                        }}
+                      />
+                    )}
+                    {cageSum !== null && (
+                      <span className="absolute top-0.5 left-1 pointer-events-none text-[8px] leading-none text-gray-700">
+                        {cageSum}
+                      </span>
+                    )}
+                    {marks.length > 0 && (
+                      // mini cuadrícula de candidatos; no captura clics para que el input reciba el foco
+                      <div
+                        className="absolute inset-0 grid p-0.5 pointer-events-none text-[8px] leading-none text-gray-500"
+                        style={{ gridTemplateColumns: `repeat(${boxCols}, 1fr)` }}
+                      >
+                        {Array.from({ length: size }, (_, i) => i + 1).map((n) => (
+                          <span key={n} className="flex items-center justify-center">
+                            {marks.includes(n) ? symbolOf(n) : ""}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {hasConflict && (
+                      <span
+                        aria-hidden
+                        className="hidden contraste:block absolute top-0.5 right-1 pointer-events-none text-[10px] leading-none font-bold"
+                      >
+                        !
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+        {showSolved && (
+          <ResultOverlay
+            outcome="won"
+            title={t.sudoku.solvedTitle}
+            detail={t.sudoku.solvedDetail(formatTime(solvedTime ?? elapsed))}
+          >
+            <button onClick={handleNewGame} className="px-3 py-2 rounded shadow-sm border bg-white" disabled={busy !== null}>
+              {t.sudoku.newGame}
+            </button>
+          </ResultOverlay>
+        )}
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        <button
+          onClick={handleCheck}
+          className="px-3 py-2 rounded shadow-sm border"
+        >
+          {t.sudoku.check}
+        </button>
+        <button onClick={handleHint} className="px-3 py-2 rounded shadow-sm border">
+          {t.sudoku.hint}
+        </button>
+        <button
+          onClick={handleUndo}
+          className="px-3 py-2 rounded shadow-sm border"
+          disabled={history.length === 0}
+        >
+          {t.sudoku.undo}
+        </button>
+        <button onClick={handleReset} className="px-3 py-2 rounded shadow-sm border">
+          {t.sudoku.reset}
+        </button>
+        <button onClick={handleSolve} className="px-3 py-2 rounded shadow-sm border" disabled={busy !== null}>
+          {busy === "solve" ? t.sudoku.solving : t.sudoku.solve}
+        </button>
+        {busy && (
+          <button onClick={cancelWorker} className="px-3 py-2 rounded shadow-sm border">
+            {t.sudoku.cancel}
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-2">
+        <button
+          onClick={() => setNotesMode((m) => !m)}
+          className={`px-3 py-2 rounded shadow-sm border ${notesMode ? "bg-yellow-100" : ""}`}
+          aria-pressed={notesMode}
+        >
+          {t.sudoku.notes(notesMode)}
+        </button>
+        <button onClick={handleFillNotes} className="px-3 py-2 rounded shadow-sm border">
+          {t.sudoku.fillNotes}
+        </button>
+        <label className="flex items-center gap-1 text-sm">
+          <input type="checkbox" checked={autoClearNotes} onChange={(e) => setAutoClearNotes(e.target.checked)} />
+          {t.sudoku.autoClearNotes}
+        </label>
+      </div>
+
+      {hint && (
+        <div className="mt-3 p-3 border rounded text-sm space-y-1">
+          {hint.map((step, i) => (
+            <p key={i} className={i === hint.length - 1 ? "font-medium" : "text-gray-600"}>
+              <strong>{t.sudoku.techniques[step.technique]}:</strong> {stepExplanation(step, t)}
+            </p>
+          ))}
+        </div>
+      )}
+      {hintMessage && <p className="mt-3 text-sm text-gray-700">{hintMessage}</p>}
+
+      <details className="mt-4 text-sm">
+        <summary className="cursor-pointer">{t.sudoku.importExport}</summary>
+        <textarea
+          value={ioText}
+          onChange={(e) => setIoText(e.target.value)}
+          rows={9}
+          className="w-full mt-2 p-2 border rounded font-mono text-xs"
+          placeholder={t.sudoku.ioPlaceholder}
+        />
+        <div className="flex flex-wrap gap-2 mt-2">
+          <button onClick={handleImport} className="px-3 py-2 rounded shadow-sm border">
+            {t.sudoku.import}
+          </button>
+          <button onClick={() => handleExport("line")} className="px-3 py-2 rounded shadow-sm border">
+            {t.sudoku.exportLine}
+          </button>
+          <button onClick={() => handleExport("sdk")} className="px-3 py-2 rounded shadow-sm border">
+            {t.sudoku.exportSdk}
+          </button>
+          <button onClick={handleShare} className="px-3 py-2 rounded shadow-sm border">
+            {t.sudoku.share}
+          </button>
+        </div>
+      </details>
+      {ioMessage && <p className="mt-2 text-sm text-gray-700">{ioMessage}</p>}
+
+      <LeaderboardPanel
+        board={rules.cages.length === 0 ? boardSudoku(toLine(puzzle, "0"), size, mode) : null}
+        result={
+          solved && solvedTime !== null && rules.cages.length === 0
+            ? { game: "sudoku", puzzle: toLine(puzzle, "0"), solution: toLine(board, "0"), size, mode, elapsed: solvedTime }
+            : null
+        }
+        format={formatEntry}
+      />
+
+      <p className="text-sm mt-3 text-gray-600">{t.sudoku.help}</p>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import { seededRandom } from "../componentes/random";
+import {
+  type Board,
+  CLASSIC,
+  cloneBoard,
+  countSolutions,
+  emptyBoard,
+  findConflicts,
+  generatePuzzle,
+  isSolved,
+  isValidPlacement,
+  makeRules,
+  placeValue,
+  solveBoard,
+  STARTING_BOARD,
+} from "./sudoku";
+
+const keys = (set: Set<string>) => Array.from(set).sort();
+
+describe("findConflicts", () => {
+  it("tablero sin conflictos", () => {
+    expect(findConflicts(STARTING_BOARD).size).toBe(0);
+  });
+
+  it("marca las dos celdas repetidas de una fila, columna o caja", () => {
+    const board = cloneBoard(STARTING_BOARD);
+    board[0][6] = 5; // fila 0 ya tiene un 5 en (0,0)
+    expect(keys(findConflicts(board))).toEqual(["0,0", "0,6"]);
+
+    const col = cloneBoard(STARTING_BOARD);
+    col[8][0] = 5; // columna 0 ya tiene un 5 en (0,0)
+    expect(keys(findConflicts(col))).toEqual(["0,0", "8,0"]);
+
+    const box = cloneBoard(STARTING_BOARD);
+    box[2][2] = 5; // misma caja que (0,0), distinta fila y columna
+    expect(keys(findConflicts(box))).toEqual(["0,0", "2,2"]);
+  });
+
+  it("una celda repetida en varias unidades aparece una sola vez", () => {
+    const board = emptyBoard(9);
+    board[0][0] = 7;
+    board[0][4] = 7;
+    board[4][0] = 7;
+    expect(keys(findConflicts(board))).toEqual(["0,0", "0,4", "4,0"]);
+  });
+
+  it("las diagonales solo cuentan en X-Sudoku", () => {
+    const board = emptyBoard(9);
+    board[0][0] = 3;
+    board[4][4] = 3;
+    board[8][0] = 6;
+    board[0][8] = 6;
+    expect(findConflicts(board).size).toBe(0);
+    const diagonal = makeRules({ size: 9, kind: "diagonal" });
+    expect(keys(findConflicts(board, diagonal))).toEqual(["0,0", "0,8", "4,4", "8,0"]);
+  });
+
+  it("cajas de 2x3 en 6x6", () => {
+    const rules = makeRules({ size: 6, kind: "classic" });
+    const board = emptyBoard(6);
+    board[0][0] = 1;
+    board[1][2] = 1; // misma caja (filas 0-1, columnas 0-2)
+    board[2][3] = 1; // otra caja, otra fila y otra columna
+    expect(keys(findConflicts(board, rules))).toEqual(["0,0", "1,2"]);
+  });
+
+  it("jaulas de Killer: repetidos, suma pasada y suma incompleta que no cuadra", () => {
+    const rules = makeRules({ size: 4, kind: "killer" }, [
+      { sum: 3, cells: [[0, 0], [0, 1]] },
+      { sum: 6, cells: [[1, 0], [1, 1]] },
+      { sum: 5, cells: [[2, 0], [3, 0]] },
+    ]);
+    const board = emptyBoard(4);
+    board[0][0] = 1;
+    board[0][1] = 2; // suma 3: bien
+    board[1][0] = 3;
+    board[1][1] = 4; // completa con suma 7 en lugar de 6
+    board[2][0] = 4;
+    board[3][0] = 2; // suma 6, se pasa de 5
+    expect(keys(findConflicts(board, rules))).toEqual(["1,0", "1,1", "2,0", "3,0"]);
+  });
+
+  it("16x16 con valores por encima de 9", () => {
+    const rules = makeRules({ size: 16, kind: "classic" });
+    const board = emptyBoard(16);
+    board[0][0] = 16;
+    board[3][3] = 16;
+    expect(keys(findConflicts(board, rules))).toEqual(["0,0", "3,3"]);
+  });
+});
+
+describe("colocar números", () => {
+  it("isValidPlacement mira fila, columna, caja y jaula", () => {
+    expect(isValidPlacement(STARTING_BOARD, 0, 2, 4)).toBe(true);
+    expect(isValidPlacement(STARTING_BOARD, 0, 2, 5)).toBe(false);
+    expect(isValidPlacement(STARTING_BOARD, 0, 2, 0)).toBe(true);
+    const rules = makeRules({ size: 4, kind: "killer" }, [{ sum: 4, cells: [[0, 0], [0, 1]] }]);
+    const board = emptyBoard(4);
+    board[0][0] = 1;
+    expect(isValidPlacement(board, 0, 1, 3, rules)).toBe(true);
+    expect(isValidPlacement(board, 0, 1, 2, rules)).toBe(false);
+  });
+
+  it("placeValue no toca las pistas ni valores fuera de rango", () => {
+    expect(placeValue(STARTING_BOARD, STARTING_BOARD, 0, 0, 1)).toBeNull();
+    expect(placeValue(STARTING_BOARD, STARTING_BOARD, 0, 2, 10)).toBeNull();
+    const next = placeValue(STARTING_BOARD, STARTING_BOARD, 0, 2, 5);
+    expect(next?.[0][2]).toBe(5);
+    expect(STARTING_BOARD[0][2]).toBe(0);
+    expect(placeValue(STARTING_BOARD, next!, 0, 2, 0)?.[0][2]).toBe(0);
+  });
+});
+
+describe("solver", () => {
+  it("resuelve el tablero inicial con solución única", () => {
+    const solution = solveBoard(STARTING_BOARD);
+    expect(solution).not.toBeNull();
+    expect(isSolved(solution!)).toBe(true);
+    expect(solution!.every((row, r) => row.every((v, c) => STARTING_BOARD[r][c] === 0 || STARTING_BOARD[r][c] === v))).toBe(
+      true
+    );
+    expect(countSolutions(STARTING_BOARD)).toBe(1);
+  });
+
+  it("cuenta soluciones hasta el límite y no resuelve tableros con conflictos", () => {
+    const rules = makeRules({ size: 4, kind: "classic" });
+    expect(countSolutions(emptyBoard(4), 2, rules)).toBe(2);
+    const bad = cloneBoard(STARTING_BOARD);
+    bad[0][2] = 5;
+    expect(solveBoard(bad)).toBeNull();
+  });
+
+  it("isSolved exige tablero completo y sin conflictos", () => {
+    expect(isSolved(STARTING_BOARD)).toBe(false);
+    const solution = solveBoard(STARTING_BOARD)!;
+    const swapped: Board = cloneBoard(solution);
+    [swapped[0][0], swapped[0][1]] = [swapped[0][1], swapped[0][0]];
+    expect(isSolved(swapped, CLASSIC)).toBe(false);
+  });
+});
+
+describe("generador", () => {
+  it("con la misma semilla genera el mismo puzzle, con solución única", () => {
+    const variant = { size: 4, kind: "classic" } as const;
+    const a = generatePuzzle("easy", { variant, random: seededRandom(7) });
+    const b = generatePuzzle("easy", { variant, random: seededRandom(7) });
+    expect(a.puzzle).toEqual(b.puzzle);
+    expect(countSolutions(a.puzzle, 2, a.rules)).toBe(1);
+    expect(solveBoard(a.puzzle, a.rules)).toEqual(a.solution);
+  });
+
+  it("en Killer las jaulas cubren el tablero y suman lo que dice la solución", () => {
+    const { rules, solution } = generatePuzzle("medium", { variant: { size: 6, kind: "killer" }, random: seededRandom(3) });
+    expect(rules.cages.flatMap((cage) => cage.cells)).toHaveLength(36);
+    for (const cage of rules.cages)
+      expect(cage.cells.reduce((sum, [r, c]) => sum + solution[r][c], 0)).toBe(cage.sum);
+    expect(isSolved(solution, rules)).toBe(true);
+  });
+});
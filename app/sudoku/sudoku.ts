@@ -0,0 +1,578 @@
+// sudoku.ts
+// Reglas y utilidades de Sudoku sin dependencias de React.
+// - Variantes: tamaños 4x4, 6x6 (cajas 2x3), 9x9 y 16x16; X-Sudoku (diagonales) y Killer (jaulas con suma)
+// - Colocar un número respetando las pistas, validación de colocaciones, detección de conflictos
+//   según las reglas de la variante y de tablero resuelto
+// - Solver con máscaras de bits y propagación de restricciones; conteo de soluciones hasta un límite
+// - Generador de puzzles con solución única y niveles de dificultad
+
+export type Board = number[][];
+
+export type Difficulty = "easy" | "medium" | "hard" | "expert";
+
+// pistas objetivo por dificultad en un 9x9: el generador quita celdas hasta llegar a este número
+// (o hasta que no se pueda quitar ninguna más sin perder la unicidad); otros tamaños usan la misma proporción
+export const DIFFICULTIES: { id: Difficulty; clues: number }[] = [
+  { id: "easy", clues: 40 },
+  { id: "medium", clues: 33 },
+  { id: "hard", clues: 28 },
+  { id: "expert", clues: 24 },
+];
+
+export type Pos = [number, number];
+
+// Jaula de Killer: sus celdas suman `sum` y no repiten número
+export type Cage = { sum: number; cells: Pos[] };
+
+// Restricciones de una partida: tamaño, forma de las cajas y reglas extra de la variante
+export type Rules = {
+  size: number;
+  boxRows: number;
+  boxCols: number;
+  diagonal: boolean; // X-Sudoku: las dos diagonales tampoco repiten
+  cages: Cage[]; // Killer
+};
+
+export type VariantKind = "classic" | "diagonal" | "killer";
+
+export type Variant = { size: number; kind: VariantKind };
+
+export const SIZES: { size: number; boxRows: number; boxCols: number; label: string }[] = [
+  { size: 4, boxRows: 2, boxCols: 2, label: "4x4" },
+  { size: 6, boxRows: 2, boxCols: 3, label: "6x6" },
+  { size: 9, boxRows: 3, boxCols: 3, label: "9x9" },
+  { size: 16, boxRows: 4, boxCols: 4, label: "16x16" },
+];
+
+export const VARIANTS: VariantKind[] = ["classic", "diagonal", "killer"];
+
+export function makeRules(variant: Variant, cages: Cage[] = []): Rules {
+  const shape = SIZES.find((s) => s.size === variant.size) ?? SIZES[2];
+  return {
+    size: shape.size,
+    boxRows: shape.boxRows,
+    boxCols: shape.boxCols,
+    diagonal: variant.kind === "diagonal",
+    cages: variant.kind === "killer" ? cages : [],
+  };
+}
+
+export const CLASSIC: Rules = makeRules({ size: 9, kind: "classic" });
+
+export function variantOf(rules: Rules): Variant {
+  return { size: rules.size, kind: rules.cages.length > 0 ? "killer" : rules.diagonal ? "diagonal" : "classic" };
+}
+
+export const STARTING_BOARD: Board = [
+  [5, 3, 0, 0, 7, 0, 0, 0, 0],
+  [6, 0, 0, 1, 9, 5, 0, 0, 0],
+  [0, 9, 8, 0, 0, 0, 0, 6, 0],
+  [8, 0, 0, 0, 6, 0, 0, 0, 3],
+  [4, 0, 0, 8, 0, 3, 0, 0, 1],
+  [7, 0, 0, 0, 2, 0, 0, 0, 6],
+  [0, 6, 0, 0, 0, 0, 2, 8, 0],
+  [0, 0, 0, 4, 1, 9, 0, 0, 5],
+  [0, 0, 0, 0, 8, 0, 0, 7, 9],
+];
+
+export function emptyBoard(size = 9): Board {
+  return Array.from({ length: size }, () => Array.from({ length: size }, () => 0));
+}
+
+export function cloneBoard(b: Board): Board {
+  return b.map((r) => r.slice());
+}
+
+// símbolo de un valor: en 16x16 del 10 al 16 se usan letras (A-G)
+export function symbolOf(n: number) {
+  return n <= 9 ? String(n) : String.fromCharCode(55 + n);
+}
+
+export function valueOf(symbol: string) {
+  const ch = symbol.toUpperCase();
+  if (ch >= "1" && ch <= "9") return parseInt(ch, 10);
+  if (ch >= "A" && ch <= "G") return ch.charCodeAt(0) - 55;
+  return 0;
+}
+
+// Unidad = grupo de celdas que no repite número. "complete" si contiene todos los números
+// (filas, columnas, cajas, diagonales); las jaulas de Killer no lo son.
+// index: posición dentro de su tipo desde 0 (diagonal 0 = principal, 1 = secundaria); sum solo en las jaulas
+export type Unit = {
+  kind: "row" | "col" | "box" | "diagonal" | "cage";
+  index: number;
+  cells: Pos[];
+  complete: boolean;
+  sum?: number;
+};
+
+type Geometry = {
+  units: Unit[];
+  peers: Pos[][][]; // peers[r][c]: celdas que comparten alguna unidad con (r, c)
+  cageOf: (Cage | null)[][];
+};
+
+const geometries = new WeakMap<Rules, Geometry>();
+
+export function geometry(rules: Rules): Geometry {
+  const cached = geometries.get(rules);
+  if (cached) return cached;
+
+  const { size, boxRows, boxCols } = rules;
+  const range = Array.from({ length: size }, (_, i) => i);
+  const units: Unit[] = [
+    ...range.map((r) => ({ kind: "row" as const, index: r, cells: range.map((c) => [r, c] as Pos), complete: true })),
+    ...range.map((c) => ({ kind: "col" as const, index: c, cells: range.map((r) => [r, c] as Pos), complete: true })),
+    ...range.map((b) => {
+      const br = Math.floor(b / (size / boxCols)) * boxRows;
+      const bc = (b % (size / boxCols)) * boxCols;
+      return {
+        kind: "box" as const,
+        index: b,
+        cells: range.map((i) => [br + Math.floor(i / boxCols), bc + (i % boxCols)] as Pos),
+        complete: true,
+      };
+    }),
+  ];
+  if (rules.diagonal) {
+    units.push({ kind: "diagonal", index: 0, cells: range.map((i) => [i, i] as Pos), complete: true });
+    units.push({ kind: "diagonal", index: 1, cells: range.map((i) => [i, size - 1 - i] as Pos), complete: true });
+  }
+  rules.cages.forEach((cage, i) =>
+    units.push({ kind: "cage", index: i, cells: cage.cells, complete: false, sum: cage.sum })
+  );
+
+  const peerSets = range.map(() => range.map(() => new Set<number>()));
+  for (const unit of units)
+    for (const [r, c] of unit.cells)
+      for (const [pr, pc] of unit.cells) if (pr !== r || pc !== c) peerSets[r][c].add(pr * size + pc);
+  const peers = peerSets.map((row) => row.map((set) => Array.from(set, (i) => [Math.floor(i / size), i % size] as Pos)));
+
+  const cageOf: (Cage | null)[][] = range.map(() => range.map(() => null));
+  for (const cage of rules.cages) for (const [r, c] of cage.cells) cageOf[r][c] = cage;
+
+  const g = { units, peers, cageOf };
+  geometries.set(rules, g);
+  return g;
+}
+
+export function isValidPlacement(board: Board, row: number, col: number, val: number, rules: Rules = CLASSIC) {
+  if (val === 0) return true;
+  const g = geometry(rules);
+  // fila, columna, caja y las unidades extra de la variante
+  for (const [r, c] of g.peers[row][col]) if (board[r][c] === val) return false;
+  // jaula: la suma no puede pasarse y, si se completa, tiene que cuadrar
+  const cage = g.cageOf[row][col];
+  if (cage) {
+    let total = val;
+    let empty = 0;
+    for (const [r, c] of cage.cells) {
+      if (r === row && c === col) continue;
+      if (board[r][c] === 0) empty++;
+      else total += board[r][c];
+    }
+    if (empty === 0 ? total !== cage.sum : total + empty > cage.sum) return false;
+  }
+  return true;
+}
+
+// Tablero con `val` (0 = borrar) en la celda; null si es una pista del puzzle o el valor no cabe en el tamaño.
+// No comprueba conflictos: el jugador puede equivocarse.
+export function placeValue(puzzle: Board, board: Board, row: number, col: number, val: number): Board | null {
+  if (puzzle[row][col] !== 0 || !Number.isInteger(val) || val < 0 || val > board.length) return null;
+  const next = cloneBoard(board);
+  next[row][col] = val;
+  return next;
+}
+
+export function findConflicts(board: Board, rules: Rules = CLASSIC) {
+  const conflicts: Set<string> = new Set();
+  // revisar cada unidad (fila/col/caja/diagonal/jaula) buscando duplicados
+  for (const unit of geometry(rules).units) {
+    const seen = new Map<number, Pos>();
+    for (const [r, c] of unit.cells) {
+      const v = board[r][c];
+      if (v === 0) continue;
+      const prev = seen.get(v);
+      if (prev) {
+        conflicts.add(`${prev[0]},${prev[1]}`);
+        conflicts.add(`${r},${c}`);
+      } else seen.set(v, [r, c]);
+    }
+  }
+  // jaulas con la suma pasada, o completas con una suma distinta
+  for (const cage of rules.cages) {
+    const values = cage.cells.map(([r, c]) => board[r][c]);
+    const total = values.reduce((a, b) => a + b, 0);
+    const full = values.every((v) => v !== 0);
+    if (total > cage.sum || (full && total !== cage.sum))
+      for (const [r, c] of cage.cells) if (board[r][c] !== 0) conflicts.add(`${r},${c}`);
+  }
+  return conflicts;
+}
+
+// completo y sin conflictos
+export function isSolved(board: Board, rules: Rules = CLASSIC) {
+  return board.every((row) => row.every((v) => v !== 0)) && findConflicts(board, rules).size === 0;
+}
+
+// Versión "plana" de la geometría para el solver: celdas como índice r * size + c y
+// candidatos como máscaras de bits (bit v - 1 encendido = v todavía cabe en la celda)
+type Compiled = {
+  cells: number;
+  full: number;
+  peers: number[][];
+  units: number[][]; // solo las completas: son las que admiten singles ocultos
+  cages: { sum: number; cells: number[] }[];
+};
+
+const compiledRules = new WeakMap<Rules, Compiled>();
+
+function compile(rules: Rules): Compiled {
+  const cached = compiledRules.get(rules);
+  if (cached) return cached;
+  const { size } = rules;
+  const g = geometry(rules);
+  const index = ([r, c]: Pos) => r * size + c;
+  const compiled = {
+    cells: size * size,
+    full: (1 << size) - 1,
+    peers: g.peers.flat().map((ps) => ps.map(index)),
+    units: g.units.filter((u) => u.complete).map((u) => u.cells.map(index)),
+    cages: rules.cages.map((cage) => ({ sum: cage.sum, cells: cage.cells.map(index) })),
+  };
+  compiledRules.set(rules, compiled);
+  return compiled;
+}
+
+function bitCount(mask: number) {
+  let n = 0;
+  for (let m = mask; m; m &= m - 1) n++;
+  return n;
+}
+
+function digitsOf(mask: number): number[] {
+  const res: number[] = [];
+  for (let v = 1; mask >> (v - 1); v++) if (mask & (1 << (v - 1))) res.push(v);
+  return res;
+}
+
+// Suma de los `count` números más pequeños (o más grandes) de la máscara; Infinity si no hay tantos
+function extremeSum(mask: number, count: number, largest: boolean) {
+  const ds = digitsOf(mask);
+  if (ds.length < count) return Infinity;
+  const picked = largest ? ds.slice(ds.length - count) : ds.slice(0, count);
+  return picked.reduce((a, b) => a + b, 0);
+}
+
+type State = { values: Uint8Array; cand: Int32Array };
+
+// Coloca v en la celda i y lo quita de los candidatos de sus vecinas.
+// Devuelve false si alguna vecina vacía se queda sin candidatos.
+function assign(state: State, peers: number[][], i: number, v: number) {
+  const { values, cand } = state;
+  const bit = 1 << (v - 1);
+  values[i] = v;
+  cand[i] = 0;
+  for (const p of peers[i]) {
+    if (!(cand[p] & bit)) continue;
+    cand[p] &= ~bit;
+    if (cand[p] === 0 && values[p] === 0) return false;
+  }
+  return true;
+}
+
+// Propagación hasta punto fijo: singles desnudos, singles ocultos y límites de suma de las jaulas.
+// Devuelve false si encuentra una contradicción.
+function propagate(state: State, c: Compiled) {
+  const { values, cand } = state;
+  let changed = true;
+  while (changed) {
+    changed = false;
+
+    for (let i = 0; i < c.cells; i++) {
+      if (values[i] !== 0) continue;
+      if (cand[i] === 0) return false;
+      if ((cand[i] & (cand[i] - 1)) === 0) {
+        if (!assign(state, c.peers, i, 31 - Math.clz32(cand[i]) + 1)) return false;
+        changed = true;
+      }
+    }
+
+    for (const unit of c.units) {
+      // once = números posibles en alguna celda, twice = en dos o más
+      let once = 0;
+      let twice = 0;
+      let placed = 0;
+      for (const i of unit) {
+        if (values[i] !== 0) placed |= 1 << (values[i] - 1);
+        else {
+          twice |= once & cand[i];
+          once |= cand[i];
+        }
+      }
+      if ((once | placed) !== c.full) return false; // algún número ya no cabe en la unidad
+      for (let hidden = once & ~twice & ~placed; hidden; hidden &= hidden - 1) {
+        const bit = hidden & -hidden;
+        const i = unit.find((j) => cand[j] & bit);
+        if (i === undefined || !assign(state, c.peers, i, 31 - Math.clz32(bit) + 1)) return false;
+        changed = true;
+      }
+    }
+
+    for (const cage of c.cages) {
+      let remaining = cage.sum;
+      let union = 0;
+      const empty: number[] = [];
+      for (const i of cage.cells) {
+        if (values[i] !== 0) remaining -= values[i];
+        else {
+          empty.push(i);
+          union |= cand[i];
+        }
+      }
+      if (empty.length === 0) {
+        if (remaining !== 0) return false;
+        continue;
+      }
+      // cada candidato tiene que poder completarse con el resto de celdas vacías de la jaula
+      for (const i of empty) {
+        for (const v of digitsOf(cand[i])) {
+          const others = union & ~(1 << (v - 1));
+          const k = empty.length - 1;
+          if (v + extremeSum(others, k, false) <= remaining && v + extremeSum(others, k, true) >= remaining) continue;
+          cand[i] &= ~(1 << (v - 1));
+          changed = true;
+        }
+        if (cand[i] === 0) return false;
+      }
+    }
+  }
+  return true;
+}
+
+// Búsqueda con propagación de restricciones sobre máscaras de bits, ramificando siempre
+// en la celda con menos candidatos. onSolution recibe cada solución encontrada y devuelve
+// true para parar. Devuelve false si se agotó `maxNodes` antes de terminar.
+function search(
+  board: Board,
+  rules: Rules,
+  onSolution: (b: Board) => boolean,
+  order = (ns: number[]) => ns,
+  maxNodes = Infinity
+): boolean {
+  const c = compile(rules);
+  const { size } = rules;
+  const initial: State = { values: new Uint8Array(c.cells), cand: new Int32Array(c.cells).fill(c.full) };
+  for (let i = 0; i < c.cells; i++) {
+    const v = board[Math.floor(i / size)][i % size];
+    if (v !== 0 && !assign(initial, c.peers, i, v)) return true; // contradicción: no hay soluciones
+  }
+  let nodes = 0;
+  let aborted = false;
+
+  function backtrack(state: State): boolean {
+    if (++nodes > maxNodes) {
+      aborted = true;
+      return true;
+    }
+    if (!propagate(state, c)) return false;
+    let best = -1;
+    let bestCount = Infinity;
+    for (let i = 0; i < c.cells && bestCount > 2; i++) {
+      if (state.values[i] !== 0) continue;
+      const n = bitCount(state.cand[i]);
+      if (n < bestCount) {
+        best = i;
+        bestCount = n;
+      }
+    }
+    if (best === -1)
+      return onSolution(Array.from({ length: size }, (_, r) => Array.from(state.values.subarray(r * size, (r + 1) * size))));
+    for (const v of order(digitsOf(state.cand[best]))) {
+      const next: State = { values: state.values.slice(), cand: state.cand.slice() };
+      if (assign(next, c.peers, best, v) && backtrack(next)) return true;
+    }
+    return false;
+  }
+
+  backtrack(initial);
+  return !aborted;
+}
+
+export type SolveReport = { count: number; solution: Board | null };
+
+// Primera solución y número de soluciones (como mucho `limit`) en una sola búsqueda
+export function analyzeBoard(board: Board, limit = 2, rules: Rules = CLASSIC): SolveReport {
+  if (findConflicts(board, rules).size > 0) return { count: 0, solution: null };
+  let count = 0;
+  let solution: Board | null = null;
+  search(board, rules, (b) => {
+    solution ??= b;
+    return ++count >= limit;
+  });
+  return { count, solution };
+}
+
+export function solveBoard(board: Board, rules: Rules = CLASSIC): Board | null {
+  return analyzeBoard(board, 1, rules).solution;
+}
+
+// Cuenta soluciones hasta `limit` (con 2 basta para saber si es única).
+export function countSolutions(board: Board, limit = 2, rules: Rules = CLASSIC): number {
+  return analyzeBoard(board, limit, rules).count;
+}
+
+// Unicidad con presupuesto de nodos para el generador: si la búsqueda se alarga
+// se da la quita por mala (en tableros grandes un caso ambiguo puede tardar muchísimo)
+function isUniqueWithin(board: Board, rules: Rules, maxNodes: number) {
+  let count = 0;
+  const finished = search(board, rules, () => ++count >= 2, undefined, maxNodes);
+  return finished && count === 1;
+}
+
+function shuffle<T>(arr: T[], random: () => number): T[] {
+  const res = arr.slice();
+  for (let i = res.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [res[i], res[j]] = [res[j], res[i]];
+  }
+  return res;
+}
+
+// Tablero completo y válido elegido al azar (backtracking con números barajados).
+// Si un intento se atasca se vuelve a empezar con otro orden.
+function generateSolution(rules: Rules, random: () => number): Board {
+  let solution: Board | null = null;
+  while (!solution)
+    search(
+      emptyBoard(rules.size),
+      rules,
+      (b) => {
+        solution = cloneBoard(b);
+        return true;
+      },
+      (ns) => shuffle(ns, random),
+      rules.size * rules.size * 4
+    );
+  return solution;
+}
+
+// Reparte el tablero resuelto en jaulas conexas de 1 a 4 celdas sin números repetidos
+function generateCages(solution: Board, random: () => number): Cage[] {
+  const size = solution.length;
+  const taken = solution.map((row) => row.map(() => false));
+  const cages: Cage[] = [];
+  for (const pos of shuffle(Array.from({ length: size * size }, (_, i) => i), random)) {
+    const r0 = Math.floor(pos / size);
+    const c0 = pos % size;
+    if (taken[r0][c0]) continue;
+    const cells: Pos[] = [[r0, c0]];
+    taken[r0][c0] = true;
+    const target = 1 + Math.floor(random() * 4);
+    while (cells.length < target) {
+      const options: Pos[] = [];
+      for (const [r, c] of cells)
+        for (const [nr, nc] of [[r - 1, c], [r + 1, c], [r, c - 1], [r, c + 1]] as Pos[]) {
+          if (nr < 0 || nc < 0 || nr >= size || nc >= size || taken[nr][nc]) continue;
+          if (cells.some(([cr, cc]) => solution[cr][cc] === solution[nr][nc])) continue;
+          options.push([nr, nc]);
+        }
+      if (options.length === 0) break;
+      const [nr, nc] = options[Math.floor(random() * options.length)];
+      taken[nr][nc] = true;
+      cells.push([nr, nc]);
+    }
+    cages.push({ sum: cells.reduce((s, [r, c]) => s + solution[r][c], 0), cells });
+  }
+  return cages;
+}
+
+export type GeneratedPuzzle = {
+  puzzle: Board;
+  solution: Board;
+  difficulty: Difficulty;
+  rules: Rules;
+};
+
+export type GenerateOptions = {
+  random?: () => number;
+  // valora la dificultad de un puzzle (p. ej. con el solucionador por técnicas de hints.ts)
+  rate?: (puzzle: Board, rules: Rules) => Difficulty;
+  variant?: Variant;
+};
+
+// Genera un puzzle con solución única: parte de una solución completa y va quitando
+// pistas en pares simétricos, deshaciendo cualquier quita que deje más de una solución.
+// Con `rate` además se deshacen las quitas que lo vuelven más difícil de lo pedido,
+// y la dificultad devuelta es la que `rate` asigna al puzzle final.
+// En Killer las jaulas ya dan información, así que se quitan el doble de pistas.
+export function generatePuzzle(difficulty: Difficulty, options: GenerateOptions = {}): GeneratedPuzzle {
+  const { random = Math.random, rate, variant = { size: 9, kind: "classic" } } = options;
+  const base = makeRules(variant.kind === "killer" ? { ...variant, kind: "classic" } : variant);
+  const solution = generateSolution(base, random);
+  const rules = variant.kind === "killer" ? makeRules(variant, generateCages(solution, random)) : base;
+
+  const { size } = rules;
+  const cellCount = size * size;
+  const level = (d: Difficulty) => DIFFICULTIES.findIndex((x) => x.id === d);
+  const ratio = (DIFFICULTIES.find((d) => d.id === difficulty)?.clues ?? 33) / 81;
+  const target = Math.round(cellCount * (variant.kind === "killer" ? ratio / 2 : ratio));
+  const puzzle = cloneBoard(solution);
+  let clues = cellCount;
+  let rated: Difficulty = rate ? rate(puzzle, rules) : difficulty;
+
+  for (const pos of shuffle(Array.from({ length: cellCount }, (_, i) => i), random)) {
+    if (clues <= target && rated === difficulty) break;
+    const r = Math.floor(pos / size);
+    const c = pos % size;
+    if (puzzle[r][c] === 0) continue;
+    // celda simétrica respecto al centro
+    const sr = size - 1 - r;
+    const sc = size - 1 - c;
+    const removed: [number, number, number][] = [[r, c, puzzle[r][c]]];
+    if ((sr !== r || sc !== c) && puzzle[sr][sc] !== 0) removed.push([sr, sc, puzzle[sr][sc]]);
+
+    for (const [rr, cc] of removed) puzzle[rr][cc] = 0;
+    const unique = isUniqueWithin(puzzle, rules, 2000);
+    const next = unique && rate ? rate(puzzle, rules) : rated;
+    if (!unique || level(next) > level(difficulty)) {
+      for (const [rr, cc, v] of removed) puzzle[rr][cc] = v;
+      continue;
+    }
+    rated = next;
+    clues -= removed.length;
+  }
+
+  return { puzzle, solution, difficulty: rated, rules };
+}
+
+// Notas a lápiz: máscara de bits por celda (bit n = el n está anotado), igual que los candidatos
+export type Notes = number[][];
+
+export function emptyNotes(size = 9): Notes {
+  return emptyBoard(size);
+}
+
+export function cloneNotes(n: Notes): Notes {
+  return n.map((r) => r.slice());
+}
+
+export function noteValues(notes: Notes, row: number, col: number): number[] {
+  const res: number[] = [];
+  for (let n = 1; n <= notes.length; n++) if (notes[row][col] & (1 << n)) res.push(n);
+  return res;
+}
+
+export function toggleNote(notes: Notes, row: number, col: number, val: number): Notes {
+  const next = cloneNotes(notes);
+  next[row][col] ^= 1 << val;
+  return next;
+}
+
+// Al colocar un valor se quita ese candidato de las notas de todas las celdas que comparten unidad
+export function removeNoteFromPeers(notes: Notes, row: number, col: number, val: number, rules: Rules = CLASSIC): Notes {
+  const next = cloneNotes(notes);
+  for (const [r, c] of geometry(rules).peers[row][col]) next[r][c] &= ~(1 << val);
+  return next;
+}
@@ -0,0 +1,31 @@
+// worker.ts
+// Web Worker del Sudoku: resolver, contar soluciones y generar puzzles fuera del hilo principal
+// para que un tablero difícil (o un 16x16) no congele la pestaña.
+// Para cancelar un trabajo la página termina el worker y crea otro.
+
+import { analyzeBoard, type Board, type Difficulty, type GeneratedPuzzle, type Rules, type SolveReport, type Variant } from "./sudoku";
+import { generateGradedPuzzle } from "./hints";
+import { seededRandom } from "../componentes/random";
+
+export type SolverJob =
+  | { type: "solve"; board: Board; rules: Rules; limit: number }
+  | { type: "generate"; difficulty: Difficulty; variant: Variant; seed?: number }; // con semilla sale siempre el mismo
+
+export type SolverReply =
+  | { type: "solve"; report: SolveReport }
+  | { type: "generate"; generated: GeneratedPuzzle };
+
+addEventListener("message", (e: MessageEvent<SolverJob>) => {
+  const job = e.data;
+  const reply: SolverReply =
+    job.type === "solve"
+      ? { type: "solve", report: analyzeBoard(job.board, job.limit, job.rules) }
+      : {
+          type: "generate",
+          generated: generateGradedPuzzle(job.difficulty, {
+            variant: job.variant,
+            random: job.seed === undefined ? undefined : seededRandom(job.seed),
+          }),
+        };
+  postMessage(reply);
+});
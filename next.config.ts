@@ -1,7 +1,11 @@
 import type { NextConfig } from "next";
+import { GAMES } from "./app/componentes/juegos";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // las rutas antiguas de los juegos siguen funcionando (enlaces compartidos, marcadores)
+  async redirects() {
+    return GAMES.flatMap((g) => (g.legacyHref ? [{ source: g.legacyHref, destination: g.href, permanent: true }] : []));
+  },
 };
 
 export default nextConfig;